@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE `VerifiedReceipt` (
+    `id` VARCHAR(191) NOT NULL,
+    `apiKeyId` VARCHAR(191) NOT NULL,
+    `provider` VARCHAR(191) NOT NULL,
+    `reference` VARCHAR(191) NOT NULL,
+    `orderId` VARCHAR(191) NULL,
+    `amount` INTEGER NULL,
+    `claimedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `VerifiedReceipt_apiKeyId_idx`(`apiKeyId`),
+    UNIQUE INDEX `VerifiedReceipt_apiKeyId_provider_reference_key`(`apiKeyId`, `provider`, `reference`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `VerifiedReceipt` ADD CONSTRAINT `VerifiedReceipt_apiKeyId_fkey` FOREIGN KEY (`apiKeyId`) REFERENCES `ApiKey`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
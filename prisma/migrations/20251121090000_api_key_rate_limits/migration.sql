@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `ApiKey` ADD COLUMN `rateLimitPerMinute` INTEGER NULL,
+    ADD COLUMN `rateLimitBurst` INTEGER NULL,
+    ADD COLUMN `dailyQuota` INTEGER NULL,
+    ADD COLUMN `monthlyQuota` INTEGER NULL;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE `ApiKey` ADD COLUMN `keyPrefix` VARCHAR(191) NULL,
+    ADD COLUMN `keyHash` VARCHAR(191) NULL,
+    ADD COLUMN `previousKeyHash` VARCHAR(191) NULL,
+    ADD COLUMN `previousKeyExpiresAt` DATETIME(3) NULL;
+
+-- Hash existing plaintext keys; they keep working without a prefix
+UPDATE `ApiKey` SET `keyHash` = SHA2(`key`, 256);
+
+ALTER TABLE `ApiKey` MODIFY `keyHash` VARCHAR(191) NOT NULL;
+
+-- DropIndex
+DROP INDEX `ApiKey_key_key` ON `ApiKey`;
+
+-- AlterTable
+ALTER TABLE `ApiKey` DROP COLUMN `key`;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `ApiKey_keyPrefix_key` ON `ApiKey`(`keyPrefix`);
+
+-- CreateIndex
+CREATE UNIQUE INDEX `ApiKey_keyHash_key` ON `ApiKey`(`keyHash`);
+
+-- CreateIndex
+CREATE INDEX `ApiKey_previousKeyHash_idx` ON `ApiKey`(`previousKeyHash`);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `ApiKey` ADD COLUMN `revokedAt` DATETIME(3) NULL,
+    ADD COLUMN `expiresAt` DATETIME(3) NULL,
+    ADD COLUMN `notes` TEXT NULL,
+    ADD COLUMN `scopes` JSON NULL;
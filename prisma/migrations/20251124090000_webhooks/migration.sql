@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE `ApiKey` ADD COLUMN `webhookUrl` TEXT NULL,
+    ADD COLUMN `webhookSecret` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `WebhookDelivery` (
+    `id` VARCHAR(191) NOT NULL,
+    `apiKeyId` VARCHAR(191) NOT NULL,
+    `jobId` VARCHAR(191) NOT NULL,
+    `event` VARCHAR(191) NOT NULL,
+    `url` TEXT NOT NULL,
+    `attempt` INTEGER NOT NULL,
+    `statusCode` INTEGER NULL,
+    `error` TEXT NULL,
+    `durationMs` INTEGER NULL,
+    `deliveredAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `WebhookDelivery_apiKeyId_idx`(`apiKeyId`),
+    INDEX `WebhookDelivery_jobId_idx`(`jobId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `WebhookDelivery` ADD CONSTRAINT `WebhookDelivery_apiKeyId_fkey` FOREIGN KEY (`apiKeyId`) REFERENCES `ApiKey`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE `VerificationJob` (
+    `id` VARCHAR(191) NOT NULL,
+    `apiKeyId` VARCHAR(191) NOT NULL,
+    `provider` VARCHAR(191) NOT NULL,
+    `request` JSON NOT NULL,
+    `status` ENUM('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED') NOT NULL DEFAULT 'QUEUED',
+    `attempts` INTEGER NOT NULL DEFAULT 0,
+    `maxAttempts` INTEGER NOT NULL DEFAULT 3,
+    `result` JSON NULL,
+    `error` TEXT NULL,
+    `runAfter` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `lockedBy` VARCHAR(191) NULL,
+    `lockedAt` DATETIME(3) NULL,
+    `completedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `VerificationJob_status_runAfter_idx`(`status`, `runAfter`),
+    INDEX `VerificationJob_apiKeyId_idx`(`apiKeyId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `VerificationJob` ADD CONSTRAINT `VerificationJob_apiKeyId_fkey` FOREIGN KEY (`apiKeyId`) REFERENCES `ApiKey`(`id`) ON DELETE RESTRICT ON UPDATE CASCADE;
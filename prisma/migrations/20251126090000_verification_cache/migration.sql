@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE `VerificationCache` (
+    `key` VARCHAR(191) NOT NULL,
+    `provider` VARCHAR(191) NOT NULL,
+    `value` JSON NOT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `VerificationCache_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`key`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE `WebhookDelivery` ADD COLUMN `payload` JSON NULL,
+    ADD COLUMN `nextAttemptAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `WebhookDelivery_nextAttemptAt_idx` ON `WebhookDelivery`(`nextAttemptAt`);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `VerificationJob` ADD COLUMN `credential` TEXT NULL;
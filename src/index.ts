@@ -10,12 +10,23 @@ import telebirrRouter from './routes/verifyTelebirrRoute';
 import dashenRouter from './routes/verifyDashenRoute';
 import abyssiniaRouter from './routes/verifyAbyssiniaRoute';
 import cbebirrRouter from './routes/verifyCBEBirrRoute';
+import verifyRouter from './routes/verifyRoute';
 import adminRouter from './routes/adminRoute';
+import jobsRouter from './routes/jobsRoute';
+import referencesRouter from './routes/referencesRoute';
+import reconcileRouter from './routes/reconcileRoute';
+import verifyPdfRouter from './routes/verifyPdfRoute';
 import logger from './utils/logger';
 import { verifyImageHandler } from "./services/verifyImage";
 import { requestLogger, initializeStatsCache } from './middleware/requestLogger';
 import { apiKeyAuth } from './middleware/apiKeyAuth';
+import { rateLimit } from './middleware/rateLimit';
+import { asyncVerification } from './middleware/asyncVerification';
 import { prisma, disconnectPrisma } from './utils/prisma';
+import { startJobWorkers, stopJobWorkers } from './services/jobQueue';
+import { startWebhookRetries, stopWebhookRetries } from './services/webhooks';
+import { closeBrowserPool } from './utils/browserPool';
+import { closeImageAnalyzers } from './services/receiptImageAnalyzer';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -34,6 +45,12 @@ logger.info(`Platform: ${process.platform}`);
 
         // Initialize stats cache from database
         await initializeStatsCache();
+
+        // Start background workers for async verification jobs
+        if (process.env.JOB_WORKERS_ENABLED !== 'false') {
+            await startJobWorkers();
+            startWebhookRetries();
+        }
     } catch (error) {
         logger.error('Failed to initialize database connection:', error);
         process.exit(1);
@@ -52,6 +69,9 @@ app.use('/admin', adminRouter);
 // Add API key authentication middleware (will not affect admin routes)
 app.use(apiKeyAuth as express.RequestHandler);
 
+// Per-key rate limits and quotas (requires apiKeyData set by apiKeyAuth)
+app.use(rateLimit as express.RequestHandler);
+
 // Error handling for JSON parsing - properly typed as an error handler
 const jsonErrorHandler: ErrorRequestHandler = async (err, req, res, next): Promise<void> => {
     if (err instanceof SyntaxError && 'body' in err) {
@@ -64,13 +84,21 @@ const jsonErrorHandler: ErrorRequestHandler = async (err, req, res, next): Promi
 
 app.use(jsonErrorHandler);
 
+// Async mode (?async=true) for every verification route
+app.use(asyncVerification as express.RequestHandler);
+
 // ✅ Attach routers to paths
+app.use('/verify', verifyRouter);
+app.use('/jobs', jobsRouter);
+app.use('/references', referencesRouter);
+app.use('/reconcile', reconcileRouter);
 app.use('/verify-cbe', CBERouter);
 app.use('/verify-telebirr', telebirrRouter);
 app.use('/verify-dashen', dashenRouter);
 app.use('/verify-abyssinia', abyssiniaRouter);
 app.use('/verify-cbebirr', cbebirrRouter);
 app.post('/verify-image', verifyImageHandler);
+app.use('/verify-pdf', verifyPdfRouter);
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
@@ -83,12 +111,18 @@ app.get('/', (req: Request, res: Response) => {
         name: 'Payment Verification API',
         version: '2.1.0',
         endpoints: [
+            '/verify',
+            '/verify/batch',
             '/verify-cbe',
             '/verify-telebirr',
             '/verify-dashen',
             '/verify-abyssinia',
             '/verify-cbebirr',
-            '/verify-image'
+            '/verify-image',
+            '/verify-pdf',
+            '/jobs/:id',
+            '/references/detect',
+            '/reconcile'
         ]
     });
 });
@@ -109,6 +143,11 @@ const gracefulShutdown = async () => {
     logger.info('Shutting down server...');
     server.close(async () => {
         logger.info('HTTP server closed');
+        // Let running verification jobs finish before dropping the database connection
+        await stopJobWorkers();
+        stopWebhookRetries();
+        await closeBrowserPool();
+        await closeImageAnalyzers();
         await disconnectPrisma();
         process.exit(0);
     });
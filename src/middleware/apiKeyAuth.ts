@@ -1,45 +1,173 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
 import logger from '../utils/logger';
 import { prisma } from '../utils/prisma';
 import { AppError, ErrorType, sendErrorResponse } from '../utils/errorHandler';
+import { getProviderByPath } from '../services/providers';
+import { generateWebhookSecret } from '../services/webhooks';
+
+export interface ApiKeyLimits {
+  rateLimitPerMinute?: number | null;
+  rateLimitBurst?: number | null;
+  dailyQuota?: number | null;
+  monthlyQuota?: number | null;
+}
+
+// Visible part of every key, e.g. "vf_live" in "vf_live_1a2b3c4d_<secret>"
+const KEY_NAMESPACE = process.env.API_KEY_NAMESPACE || 'vf_live';
+
+// How long a rotated-out secret keeps working by default
+const DEFAULT_ROTATION_GRACE_SECONDS = parseInt(process.env.API_KEY_ROTATION_GRACE_SECONDS || '86400', 10);
+
+// Keys are 192-bit random secrets, so a plain SHA-256 is enough to store them safely
+export const hashApiKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+const safeEqual = (a: string, b: string) =>
+  a.length === b.length && crypto.timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const newSecret = () => crypto.randomBytes(24).toString('hex');
+
+const newKeyPrefix = () => `${KEY_NAMESPACE}_${crypto.randomBytes(4).toString('hex')}`;
+
+// Split "vf_live_1a2b3c4d_<secret>" into its lookup prefix; legacy keys have none
+const parseKeyPrefix = (key: string): string | null => {
+  const match = key.match(/^([a-z]+_[a-z]+_[0-9a-f]{8})_[0-9a-f]+$/);
+  return match ? match[1] : null;
+};
 
 // Function to generate a new API key
-export const generateApiKey = async (owner: string) => {
-  // Generate a random API key
-  const key = Buffer.from(`${owner}-${Date.now()}-${Math.random().toString(36).substring(2)}`)
-    .toString('base64')
-    .replace(/[^a-zA-Z0-9]/g, '');
+// The plaintext key is only returned here and cannot be recovered later
+export const generateApiKey = async (owner: string, limits: ApiKeyLimits = {}) => {
+  for (let attempt = 1; ; attempt++) {
+    const keyPrefix = newKeyPrefix();
+    const key = `${keyPrefix}_${newSecret()}`;
+
+    try {
+      // Create API key in database
+      const apiKey = await prisma.apiKey.create({
+        data: {
+          keyPrefix,
+          keyHash: hashApiKey(key),
+          owner,
+          usageCount: 0,
+          isActive: true,
+          ...limits
+        }
+      });
 
+      return { ...apiKey, key };
+    } catch (error) {
+      // Retry the (unlikely) prefix collision a couple of times
+      if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002' && attempt < 3) {
+        continue;
+      }
+      logger.error('Error generating API key:', error);
+      throw error;
+    }
+  }
+};
+
+/**
+ * Issue a new secret for an existing key. The old secret keeps working
+ * until the grace period ends; the prefix stays the same so clients
+ * and logs can still identify the key.
+ */
+export const rotateApiKey = async (id: string, gracePeriodSeconds = DEFAULT_ROTATION_GRACE_SECONDS) => {
   try {
-    // Create API key in database
-    const apiKey = await prisma.apiKey.create({
+    const existing = await prisma.apiKey.findUnique({ where: { id } });
+    if (!existing) {
+      throw new AppError('API key not found', ErrorType.NOT_FOUND, 404);
+    }
+
+    // Keys issued before prefixes existed get one on their first rotation
+    const keyPrefix = existing.keyPrefix ?? newKeyPrefix();
+    const key = `${keyPrefix}_${newSecret()}`;
+    const previousKeyExpiresAt = new Date(Date.now() + gracePeriodSeconds * 1000);
+
+    const apiKey = await prisma.apiKey.update({
+      where: { id },
       data: {
-        key,
-        owner,
-        usageCount: 0,
-        isActive: true
+        keyPrefix,
+        keyHash: hashApiKey(key),
+        previousKeyHash: gracePeriodSeconds > 0 ? existing.keyHash : null,
+        previousKeyExpiresAt: gracePeriodSeconds > 0 ? previousKeyExpiresAt : null
       }
     });
 
-    return apiKey;
+    return { ...apiKey, key };
   } catch (error) {
-    logger.error('Error generating API key:', error);
+    logger.error('Error rotating API key:', error);
     throw error;
   }
 };
 
-// Function to validate an API key
-export const validateApiKey = async (key: string) => {
+// Look up the key record matching a presented key, whatever its status
+export const findApiKey = async (key: string) => {
   try {
-    return await prisma.apiKey.findUnique({
-      where: { key, isActive: true }
-    });
+    const keyHash = hashApiKey(key);
+    const keyPrefix = parseKeyPrefix(key);
+    const now = new Date();
+
+    const candidate = keyPrefix
+      ? await prisma.apiKey.findUnique({ where: { keyPrefix } })
+      : await prisma.apiKey.findFirst({
+        where: {
+          OR: [
+            { keyHash },
+            { previousKeyHash: keyHash, previousKeyExpiresAt: { gt: now } }
+          ]
+        }
+      });
+
+    if (!candidate) {
+      return null;
+    }
+
+    const matchesCurrent = safeEqual(candidate.keyHash, keyHash);
+    const matchesPrevious = Boolean(
+      candidate.previousKeyHash &&
+      candidate.previousKeyExpiresAt &&
+      candidate.previousKeyExpiresAt > now &&
+      safeEqual(candidate.previousKeyHash, keyHash)
+    );
+
+    return matchesCurrent || matchesPrevious ? candidate : null;
   } catch (error) {
-    logger.error('Error validating API key:', error);
+    logger.error('Error looking up API key:', error);
     throw error;
   }
 };
 
+type KeyStatus = { isActive: boolean; expiresAt: Date | null };
+
+const isExpired = (keyData: KeyStatus, now = new Date()) => Boolean(keyData.expiresAt && keyData.expiresAt <= now);
+
+// Function to validate an API key
+export const validateApiKey = async (key: string) => {
+  const keyData = await findApiKey(key);
+  return keyData && keyData.isActive && !isExpired(keyData) ? keyData : null;
+};
+
+// Scopes are a list of provider names; keys without scopes may call every provider
+export const keyAllowsProvider = (keyData: { scopes?: unknown }, provider: string): boolean => {
+  const scopes = keyData.scopes;
+  if (!Array.isArray(scopes)) return true;
+  return scopes.includes(provider.toLowerCase());
+};
+
+// Work out which provider a request targets, if any
+const resolveRequestProvider = (req: Request): string | undefined => {
+  if (req.path === '/verify' && typeof req.body?.provider === 'string') {
+    return req.body.provider.toLowerCase();
+  }
+  return getProviderByPath(req.path)?.name;
+};
+
+const sendAuthError = (res: Response, status: number, code: string, error: string) =>
+  res.status(status).json({ success: false, code, error });
+
 // Middleware to check API key
 export const apiKeyAuth = async (req: Request, res: Response, next: NextFunction) => {
   // Skip API key check for certain routes
@@ -52,17 +180,33 @@ export const apiKeyAuth = async (req: Request, res: Response, next: NextFunction
 
   if (!apiKey) {
     logger.warn(`API request without API key: ${req.method} ${req.path}`);
-    return res.status(401).json({ success: false, error: 'API key is required' });
+    return sendAuthError(res, 401, 'API_KEY_REQUIRED', 'API key is required');
   }
 
   try {
     // Validate API key
     const keyString = Array.isArray(apiKey) ? apiKey[0] : apiKey;
-    const keyData = await validateApiKey(keyString);
+    const keyData = await findApiKey(keyString);
 
     if (!keyData) {
       logger.warn(`Invalid API key used: ${typeof keyString === 'string' ? keyString.substring(0, 8) : ''}...`);
-      return res.status(403).json({ success: false, error: 'Invalid API key' });
+      return sendAuthError(res, 403, 'INVALID_API_KEY', 'Invalid API key');
+    }
+
+    if (!keyData.isActive) {
+      logger.warn(`Revoked API key used: ${keyData.keyPrefix ?? keyData.id}`);
+      return sendAuthError(res, 403, 'API_KEY_REVOKED', 'API key has been revoked');
+    }
+
+    if (isExpired(keyData)) {
+      logger.warn(`Expired API key used: ${keyData.keyPrefix ?? keyData.id}`);
+      return sendAuthError(res, 403, 'API_KEY_EXPIRED', `API key expired at ${keyData.expiresAt!.toISOString()}`);
+    }
+
+    const provider = resolveRequestProvider(req);
+    if (provider && !keyAllowsProvider(keyData, provider)) {
+      logger.warn(`API key ${keyData.keyPrefix ?? keyData.id} is not allowed to call ${provider}`);
+      return sendAuthError(res, 403, 'SCOPE_DENIED', `API key is not allowed to verify ${provider} payments`);
     }
 
     // Update API key usage statistics
@@ -84,6 +228,71 @@ export const apiKeyAuth = async (req: Request, res: Response, next: NextFunction
   }
 };
 
+// Update rate limits and quotas of an API key
+export const updateApiKeyLimits = async (id: string, limits: ApiKeyLimits) => {
+  try {
+    return await prisma.apiKey.update({
+      where: { id },
+      data: limits
+    });
+  } catch (error) {
+    logger.error('Error updating API key limits:', error);
+    throw error;
+  }
+};
+
+export interface ApiKeyChanges {
+  owner?: string;
+  isActive?: boolean;
+  expiresAt?: Date | null;
+  notes?: string | null;
+  scopes?: string[] | null;
+}
+
+// Update an API key's details; reactivating clears the revocation timestamp
+export const updateApiKey = async (id: string, changes: ApiKeyChanges) => {
+  try {
+    const { scopes, ...rest } = changes;
+    return await prisma.apiKey.update({
+      where: { id },
+      data: {
+        ...rest,
+        ...(scopes !== undefined && { scopes: scopes === null ? Prisma.DbNull : scopes }),
+        ...(changes.isActive === true && { revokedAt: null }),
+        ...(changes.isActive === false && { revokedAt: new Date() })
+      }
+    });
+  } catch (error) {
+    logger.error('Error updating API key:', error);
+    throw error;
+  }
+};
+
+// Register, replace or clear (url = null) the webhook of an API key
+export const setApiKeyWebhook = async (id: string, url: string | null, rotateSecret = false) => {
+  try {
+    const existing = await prisma.apiKey.findUnique({ where: { id } });
+    if (!existing) {
+      throw new AppError('API key not found', ErrorType.NOT_FOUND, 404);
+    }
+
+    const webhookSecret = url === null
+      ? null
+      : (rotateSecret || !existing.webhookSecret ? generateWebhookSecret() : existing.webhookSecret);
+
+    return await prisma.apiKey.update({
+      where: { id },
+      data: { webhookUrl: url, webhookSecret }
+    });
+  } catch (error) {
+    logger.error('Error updating API key webhook:', error);
+    throw error;
+  }
+};
+
+// Soft-revoke an API key; its usage history and claimed receipts are kept
+export const revokeApiKey = async (id: string) => updateApiKey(id, { isActive: false });
+
 // Get all API keys
 export const getApiKeys = async () => {
   try {
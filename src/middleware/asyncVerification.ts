@@ -0,0 +1,52 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../utils/logger';
+import { getProviderByPath } from '../services/providers';
+import { parseVerificationRequest } from '../services/verificationRunner';
+import { enqueueVerificationJob } from '../services/jobQueue';
+import { bypassesCache } from '../services/resultCache';
+import { sendErrorResponse } from '../utils/errorHandler';
+
+// Intercepts `POST /verify?async=true` and `POST /verify-*?async=true`
+export const asyncVerification = async (req: Request, res: Response, next: NextFunction) => {
+  if (req.method !== 'POST' || req.query.async !== 'true') {
+    return next();
+  }
+
+  const body = (req.body ?? {}) as Record<string, unknown>;
+  const providerName = req.path === '/verify' ? body.provider : getProviderByPath(req.path)?.name;
+  if (providerName === undefined && req.path !== '/verify') {
+    return next();
+  }
+
+  const keyData = (req as any).apiKeyData;
+  if (!keyData) {
+    return next();
+  }
+
+  const { request, error } = parseVerificationRequest(providerName, body, keyData.id);
+  if (error) {
+    return res.status(error.status).json(error.body);
+  }
+
+  try {
+    const apiKey = req.headers.authorization?.replace('Bearer ', '') || req.headers['x-api-key'] as string;
+    const job = await enqueueVerificationJob({
+      ...request,
+      apiKeyId: keyData.id,
+      noCache: bypassesCache(req.headers['cache-control'])
+    }, apiKey);
+    logger.info(`Accepted async verification job ${job.id} for ${request.provider}`);
+
+    res.status(202).json({
+      success: true,
+      jobId: job.id,
+      status: 'queued',
+      provider: request.provider,
+      statusUrl: `/jobs/${job.id}`,
+      webhook: Boolean(keyData.webhookUrl)
+    });
+  } catch (err) {
+    logger.error('Error queueing verification job:', err);
+    sendErrorResponse(res, err);
+  }
+};
@@ -0,0 +1,207 @@
+import { describe, test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import RedisMock from 'ioredis-mock';
+import { chargeRequests, rateLimit } from './rateLimit';
+import {
+    createMemoryRateLimitStore,
+    createRedisRateLimitStore,
+    RateLimitStore,
+    setRateLimitStore
+} from '../utils/rateLimitStore';
+import logger from '../utils/logger';
+
+logger.silent = true;
+
+// One token per second
+const REFILL_PER_MS = 1 / 1000;
+
+// ioredis-mock runs the store's Lua scripts, so this is the Redis code path without a server
+const stores: Record<string, () => RateLimitStore> = {
+    memory: createMemoryRateLimitStore,
+    redis: () => createRedisRateLimitStore(new RedisMock())
+};
+
+for (const [name, createStore] of Object.entries(stores)) {
+    describe(`${name} rate limit store`, () => {
+        test('allows a burst up to the capacity, then reports when the next token is due', async () => {
+            const store = createStore();
+            for (const remaining of [2, 1, 0]) {
+                assert.deepEqual(await store.takeToken('bucket', 3, REFILL_PER_MS, 0), { allowed: true, remaining, retryAfterMs: 0 });
+            }
+            assert.deepEqual(await store.takeToken('bucket', 3, REFILL_PER_MS, 0), { allowed: false, remaining: 0, retryAfterMs: 1000 });
+            assert.deepEqual(await store.takeToken('bucket', 3, REFILL_PER_MS, 400), { allowed: false, remaining: 0, retryAfterMs: 600 });
+        });
+
+        test('refills over time without going above the capacity', async () => {
+            const store = createStore();
+            for (let i = 0; i < 3; i++) await store.takeToken('bucket', 3, REFILL_PER_MS, 0);
+
+            assert.deepEqual(await store.takeToken('bucket', 3, REFILL_PER_MS, 1500), { allowed: true, remaining: 0, retryAfterMs: 0 });
+            assert.deepEqual(await store.takeToken('bucket', 3, REFILL_PER_MS, 60000), { allowed: true, remaining: 2, retryAfterMs: 0 });
+        });
+
+        test('keeps separate buckets per key', async () => {
+            const store = createStore();
+            await store.takeToken('a', 1, REFILL_PER_MS, 0);
+            assert.equal((await store.takeToken('a', 1, REFILL_PER_MS, 0)).allowed, false);
+            assert.equal((await store.takeToken('b', 1, REFILL_PER_MS, 0)).allowed, true);
+        });
+
+        test('counts quota usage per key', async () => {
+            const store = createStore();
+            assert.equal(await store.increment('daily:a', 60000), 1);
+            assert.equal(await store.increment('daily:a', 60000), 2);
+            assert.equal(await store.increment('daily:b', 60000), 1);
+        });
+
+        test('takes several tokens at once, or none when too few are left', async () => {
+            const store = createStore();
+            assert.deepEqual(await store.takeToken('batch-bucket', 5, REFILL_PER_MS, 0, 3), { allowed: true, remaining: 2, retryAfterMs: 0 });
+            assert.deepEqual(await store.takeToken('batch-bucket', 5, REFILL_PER_MS, 0, 3), { allowed: false, remaining: 2, retryAfterMs: 1000 });
+            assert.deepEqual(await store.takeToken('batch-bucket', 5, REFILL_PER_MS, 0, 2), { allowed: true, remaining: 0, retryAfterMs: 0 });
+        });
+
+        test('adds and gives back several quota units at once', async () => {
+            const store = createStore();
+            assert.equal(await store.increment('daily:batch', 60000, 0, 5), 5);
+            assert.equal(await store.increment('daily:batch', 60000, 0, -5), 0);
+            assert.equal(await store.increment('daily:batch', 60000, 0), 1);
+        });
+    });
+}
+
+test('memory store restarts a quota window once it expires', async () => {
+    const store = createMemoryRateLimitStore();
+    await store.increment('daily:a', 1000, 0);
+    assert.equal(await store.increment('daily:a', 1000, 999), 2);
+    assert.equal(await store.increment('daily:a', 1000, 1000), 1);
+});
+
+describe('rateLimit middleware', () => {
+    let server: Server;
+    let baseUrl: string;
+    let keyData: Record<string, unknown> | undefined;
+
+    before(async () => {
+        const app = express();
+        app.use((req, _res, next) => {
+            (req as any).apiKeyData = keyData;
+            next();
+        });
+        app.use(rateLimit as express.RequestHandler);
+        app.get('/', (_req, res) => {
+            res.json({ success: true });
+        });
+        app.get('/batch/:items', async (req, res) => {
+            if (!(await chargeRequests(req, res, Number(req.params.items)))) return;
+            res.json({ success: true });
+        });
+        server = await new Promise<Server>(resolve => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    beforeEach(() => setRateLimitStore(createMemoryRateLimitStore()));
+
+    test('sets RateLimit headers and answers 429 with Retry-After once the burst is used', async () => {
+        keyData = { id: 'key-burst', owner: 'test', rateLimitPerMinute: 60, rateLimitBurst: 2 };
+
+        const first = await fetch(baseUrl);
+        assert.equal(first.status, 200);
+        assert.equal(first.headers.get('ratelimit-limit'), '2');
+        assert.equal(first.headers.get('ratelimit-remaining'), '1');
+        assert.equal(first.headers.get('ratelimit-reset'), '1');
+
+        assert.equal((await fetch(baseUrl)).status, 200);
+
+        const limited = await fetch(baseUrl);
+        assert.equal(limited.status, 429);
+        assert.equal(limited.headers.get('ratelimit-remaining'), '0');
+        assert.equal(limited.headers.get('retry-after'), '1');
+        const body = await limited.json();
+        assert.equal(body.code, 'RATE_LIMITED');
+        assert.equal(body.retryAfter, 1);
+    });
+
+    test('rejects requests over the daily quota with QUOTA_EXCEEDED', async () => {
+        keyData = { id: 'key-quota', owner: 'test', rateLimitPerMinute: 600, dailyQuota: 2 };
+
+        assert.equal((await fetch(baseUrl)).status, 200);
+        assert.equal((await fetch(baseUrl)).status, 200);
+
+        const over = await fetch(baseUrl);
+        assert.equal(over.status, 429);
+        assert.equal((await over.json()).code, 'QUOTA_EXCEEDED');
+        assert.ok(Number(over.headers.get('retry-after')) <= 24 * 60 * 60);
+    });
+
+    test('charges a batch once per item and rejects it when too few tokens are left', async () => {
+        keyData = { id: 'key-batch', owner: 'test', rateLimitPerMinute: 60, rateLimitBurst: 10 };
+
+        const batch = await fetch(`${baseUrl}/batch/6`);
+        assert.equal(batch.status, 200);
+        assert.equal(batch.headers.get('ratelimit-remaining'), '4');
+
+        const tooMany = await fetch(`${baseUrl}/batch/6`);
+        assert.equal(tooMany.status, 429);
+        assert.equal((await tooMany.json()).code, 'RATE_LIMITED');
+        // The rejected batch took nothing
+        assert.equal((await fetch(baseUrl)).headers.get('ratelimit-remaining'), '2');
+    });
+
+    test('rejects a batch larger than the burst outright', async () => {
+        keyData = { id: 'key-huge', owner: 'test', rateLimitPerMinute: 60, rateLimitBurst: 10 };
+
+        const response = await fetch(`${baseUrl}/batch/50`);
+        assert.equal(response.status, 429);
+        assert.equal(response.headers.get('retry-after'), null);
+        assert.match((await response.json()).error, /counts as 50 requests/);
+    });
+
+    test('rejects a batch larger than the remaining quota without using it up', async () => {
+        keyData = { id: 'key-batch-quota', owner: 'test', rateLimitPerMinute: 600, dailyQuota: 10 };
+
+        assert.equal((await fetch(`${baseUrl}/batch/8`)).status, 200);
+
+        const over = await fetch(`${baseUrl}/batch/5`);
+        assert.equal(over.status, 429);
+        assert.equal((await over.json()).code, 'QUOTA_EXCEEDED');
+
+        assert.equal((await fetch(`${baseUrl}/batch/2`)).status, 200);
+        assert.equal((await fetch(baseUrl)).status, 429);
+    });
+
+    test('limits through the Redis store', async () => {
+        setRateLimitStore(createRedisRateLimitStore(new RedisMock()));
+        keyData = { id: 'key-redis', owner: 'test', rateLimitPerMinute: 60, rateLimitBurst: 1 };
+
+        assert.equal((await fetch(baseUrl)).status, 200);
+        const limited = await fetch(baseUrl);
+        assert.equal(limited.status, 429);
+        assert.equal(limited.headers.get('ratelimit-limit'), '1');
+    });
+
+    test('lets unauthenticated requests through without headers', async () => {
+        keyData = undefined;
+        const response = await fetch(baseUrl);
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get('ratelimit-limit'), null);
+    });
+
+    test('fails open when the store is down', async () => {
+        setRateLimitStore({
+            takeToken: () => Promise.reject(new Error('connection refused')),
+            increment: () => Promise.reject(new Error('connection refused'))
+        });
+        keyData = { id: 'key-down', owner: 'test', rateLimitBurst: 1 };
+
+        assert.equal((await fetch(baseUrl)).status, 200);
+        assert.equal((await fetch(baseUrl)).status, 200);
+    });
+});
@@ -0,0 +1,146 @@
+import { Request, Response, NextFunction } from 'express';
+import logger from '../utils/logger';
+import { getRateLimitStore } from '../utils/rateLimitStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const envInt = (name: string): number | null => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+// Server-wide defaults used when a key has no limits of its own
+const DEFAULT_RATE_LIMIT_PER_MINUTE = envInt('DEFAULT_RATE_LIMIT_PER_MINUTE') ?? 60;
+const DEFAULT_RATE_LIMIT_BURST = envInt('DEFAULT_RATE_LIMIT_BURST');
+const DEFAULT_DAILY_QUOTA = envInt('DEFAULT_DAILY_QUOTA');
+const DEFAULT_MONTHLY_QUOTA = envInt('DEFAULT_MONTHLY_QUOTA');
+
+interface KeyLimits {
+  rateLimitPerMinute?: number | null;
+  rateLimitBurst?: number | null;
+  dailyQuota?: number | null;
+  monthlyQuota?: number | null;
+}
+
+export const resolveLimits = (keyData: KeyLimits) => {
+  const perMinute = keyData.rateLimitPerMinute ?? DEFAULT_RATE_LIMIT_PER_MINUTE;
+  return {
+    perMinute,
+    burst: keyData.rateLimitBurst ?? DEFAULT_RATE_LIMIT_BURST ?? perMinute,
+    dailyQuota: keyData.dailyQuota ?? DEFAULT_DAILY_QUOTA,
+    monthlyQuota: keyData.monthlyQuota ?? DEFAULT_MONTHLY_QUOTA
+  };
+};
+
+const sendTooManyRequests = (res: Response, code: string, error: string, retryAfterMs: number) => {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  res.set('Retry-After', String(retryAfter));
+  res.status(429).json({ success: false, code, error, retryAfter });
+};
+
+interface RateLimitedKey extends KeyLimits {
+  id: string;
+  owner?: string;
+}
+
+/**
+ * Charge `units` requests to the key's token bucket and quotas, setting the
+ * RateLimit headers. `total` is what the whole request counts as, when part
+ * of it was charged already. Answers 429 and resolves false when the key is
+ * over a limit; quota units of a rejected request are given back.
+ */
+async function charge(res: Response, keyData: RateLimitedKey, units: number, total = units): Promise<boolean> {
+  const limits = resolveLimits(keyData);
+  const store = getRateLimitStore();
+  const now = new Date();
+  const countsAs = total > 1 ? ` This request counts as ${total}.` : '';
+
+  try {
+    const refillPerMs = limits.perMinute / 60000;
+    // Waiting would not help: the bucket never holds that many tokens
+    if (total > limits.burst) {
+      res.set('RateLimit-Limit', String(limits.burst));
+      res.status(429).json({
+        success: false,
+        code: 'RATE_LIMITED',
+        error: `This request counts as ${total} requests, more than the burst of ${limits.burst}. Split it into smaller requests.`
+      });
+      return false;
+    }
+
+    const bucket = await store.takeToken(`bucket:${keyData.id}`, limits.burst, refillPerMs, now.getTime(), units);
+
+    // Reset is the time until the bucket is full again (or until enough tokens when rejected)
+    const resetMs = bucket.allowed ? (limits.burst - bucket.remaining) / refillPerMs : bucket.retryAfterMs;
+    res.set('RateLimit-Limit', String(limits.burst));
+    res.set('RateLimit-Remaining', String(bucket.remaining));
+    res.set('RateLimit-Reset', String(Math.ceil(resetMs / 1000)));
+
+    if (!bucket.allowed) {
+      logger.warn(`Rate limit exceeded for API key owner ${keyData.owner}`);
+      sendTooManyRequests(res, 'RATE_LIMITED', 'Rate limit exceeded. Slow down and retry later.', bucket.retryAfterMs);
+      return false;
+    }
+
+    const charged: { key: string; ttlMs: number }[] = [];
+    const quotas = [
+      limits.dailyQuota && {
+        period: 'Daily',
+        quota: limits.dailyQuota,
+        key: `daily:${keyData.id}:${now.toISOString().slice(0, 10)}`,
+        ttlMs: DAY_MS,
+        resetsAt: Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+      },
+      limits.monthlyQuota && {
+        period: 'Monthly',
+        quota: limits.monthlyQuota,
+        key: `monthly:${keyData.id}:${now.toISOString().slice(0, 7)}`,
+        ttlMs: 31 * DAY_MS,
+        resetsAt: Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)
+      }
+    ];
+
+    for (const quota of quotas) {
+      if (!quota) continue;
+      const used = await store.increment(quota.key, quota.ttlMs, now.getTime(), units);
+      charged.push(quota);
+      if (used > quota.quota) {
+        // Give the whole request back so a rejected batch does not use up what smaller requests could still spend
+        await Promise.all(charged.map(({ key, ttlMs }) => store.increment(key, ttlMs, now.getTime(), -total)));
+        logger.warn(`${quota.period} quota exhausted for API key owner ${keyData.owner}`);
+        sendTooManyRequests(res, 'QUOTA_EXCEEDED', `${quota.period} quota of ${quota.quota} requests exceeded.${countsAs}`, quota.resetsAt - now.getTime());
+        return false;
+      }
+    }
+  } catch (error) {
+    // Fail open: a broken counter store must not take the API down
+    logger.error('Error applying rate limits:', error);
+  }
+
+  return true;
+}
+
+// Middleware enforcing per-key token-bucket rate limits and daily/monthly quotas
+export const rateLimit = async (req: Request, res: Response, next: NextFunction) => {
+  const keyData = (req as any).apiKeyData;
+
+  // Only authenticated requests are limited; public routes pass through
+  if (!keyData) {
+    return next();
+  }
+
+  if (await charge(res, keyData, 1)) {
+    next();
+  }
+};
+
+/**
+ * Charge a request that stands for `total` requests (batch items,
+ * reconciliation rows); the middleware already charged one. Resolves false
+ * after answering 429.
+ */
+export const chargeRequests = async (req: Request, res: Response, total: number): Promise<boolean> => {
+  const keyData = (req as any).apiKeyData;
+  if (!keyData || total <= 1) return true;
+  return charge(res, keyData, total - 1, total);
+};
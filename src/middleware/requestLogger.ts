@@ -116,7 +116,7 @@ export const requestLogger = (req: Request, res: Response, next: NextFunction) =
       statusCode: res.statusCode,
       responseTime,
       contentLength: res.get('Content-Length') || 'unknown',
-      apiKey: (req as any).apiKeyData?.key?.substring(0, 8) || 'none'
+      apiKey: (req as any).apiKeyData?.keyPrefix || (req as any).apiKeyData?.owner || 'none'
     });
 
     if (res.statusCode >= 400) {
@@ -0,0 +1,63 @@
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { coerceFormFields, singleFileUpload } from './upload';
+
+describe('singleFileUpload', () => {
+    let server: Server;
+    let url: string;
+
+    before(async () => {
+        const app = express();
+        app.post('/', singleFileUpload('file', 1024), (req, res) => {
+            res.json({ size: req.file?.size ?? null, fields: req.body });
+        });
+        server = await new Promise<Server>(resolve => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    const upload = (field: string, bytes: number) => {
+        const form = new FormData();
+        form.append(field, new Blob([new Uint8Array(bytes)]), 'receipt.pdf');
+        form.append('consume', 'true');
+        return fetch(url, { method: 'POST', body: form });
+    };
+
+    test('passes a file within the limit and the form fields', async () => {
+        const response = await upload('file', 512);
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { size: 512, fields: { consume: 'true' } });
+    });
+
+    test('answers 413 for a file over the limit', async () => {
+        const response = await upload('file', 2048);
+        assert.equal(response.status, 413);
+        assert.equal((await response.json()).success, false);
+    });
+
+    test('answers 400 for a file under another field name', async () => {
+        const response = await upload('document', 10);
+        assert.equal(response.status, 400);
+        assert.match((await response.json()).error, /upload the file as "file"/);
+    });
+});
+
+test('coerceFormFields turns multipart strings into booleans and JSON', () => {
+    assert.deepEqual(
+        coerceFormFields(
+            { consume: 'true', other: 'false', expect: '{"exactAmount":1500}', suffix: '12345678' },
+            { booleans: ['consume'], json: ['expect'] }
+        ),
+        { consume: true, other: 'false', expect: { exactAmount: 1500 }, suffix: '12345678' }
+    );
+    assert.deepEqual(coerceFormFields({ consume: 'yes', expect: '{oops' }, { booleans: ['consume'], json: ['expect'] }), {
+        consume: 'yes',
+        expect: '{oops'
+    });
+});
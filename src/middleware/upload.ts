@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+
+/**
+ * Accept one file in memory under `field`. Multer rejections (file too
+ * large, unexpected field, too many parts) are answered here with 413 or
+ * 400 instead of reaching the global 500 handler.
+ */
+export const singleFileUpload = (field: string, maxBytes: number): RequestHandler => {
+  const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: maxBytes } }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (err: unknown) => {
+      if (!err) return next();
+
+      if (err instanceof multer.MulterError) {
+        if (err.code === 'LIMIT_FILE_SIZE') {
+          res.status(413).json({ success: false, error: `The file is larger than ${Math.floor(maxBytes / (1024 * 1024))} MB` });
+          return;
+        }
+        const detail = err.code === 'LIMIT_UNEXPECTED_FILE' ? `; upload the file as "${field}"` : '';
+        res.status(400).json({ success: false, error: `${err.message}${detail}` });
+        return;
+      }
+      // Malformed multipart bodies surface as plain errors from busboy
+      res.status(400).json({ success: false, error: `Could not read the upload: ${err instanceof Error ? err.message : String(err)}` });
+    });
+  };
+};
+
+/**
+ * Multipart fields arrive as strings. "true"/"false" in `booleans` become
+ * booleans and JSON text in `json` is parsed, so the fields validate like a
+ * JSON body; anything else is left for validation to report.
+ */
+export const coerceFormFields = (
+  body: Record<string, unknown>,
+  { booleans = [], json = [] }: { booleans?: string[]; json?: string[] }
+): Record<string, unknown> => {
+  const coerced = { ...body };
+  for (const field of booleans) {
+    if (coerced[field] === 'true') coerced[field] = true;
+    else if (coerced[field] === 'false') coerced[field] = false;
+  }
+  for (const field of json) {
+    const value = coerced[field];
+    if (typeof value !== 'string') continue;
+    try {
+      coerced[field] = JSON.parse(value);
+    } catch {
+      // Reported by validation as the wrong type
+    }
+  }
+  return coerced;
+};
@@ -0,0 +1,154 @@
+import express, { Request, Response } from 'express';
+import { Server } from 'http';
+import { Socket } from 'net';
+import dotenv from 'dotenv';
+import { MOCK_PORTALS, MOCK_SCENARIOS, MockScenario } from './portals';
+
+dotenv.config();
+
+// Port of the standalone mock server
+const MOCK_BANK_PORT = parseInt(process.env.MOCK_BANK_PORT || '4010', 10);
+// How long a timeout scenario holds a request; longer than any service timeout
+const MOCK_TIMEOUT_MS = parseInt(process.env.MOCK_TIMEOUT_MS || '120000', 10);
+
+/**
+ * Local stand-in for every bank portal, for development and integration
+ * tests outside Ethiopia. Point the API at it with
+ * `UPSTREAM_REDIRECT=http://localhost:4010`.
+ *
+ * Every portal answers `found` unless told otherwise. Scenarios are set per
+ * portal through `MOCK_BANK_SCENARIOS` (e.g. `cbe=timeout,dashen=not_found`)
+ * or at runtime, per portal or per reference:
+ *
+ *   POST   /_mock/scenarios  {"scenario": "timeout", "portal": "cbe"}
+ *   POST   /_mock/scenarios  {"scenario": "malformed", "reference": "FT25130011AB"}
+ *   GET    /_mock/scenarios  current settings
+ *   DELETE /_mock/scenarios  back to the startup settings
+ */
+
+const isScenario = (value: unknown): value is MockScenario => MOCK_SCENARIOS.includes(value as MockScenario);
+
+// "cbe=timeout,dashen=not_found" -> { cbe: 'timeout', dashen: 'not_found' }
+function parseScenarioList(list: string): Record<string, MockScenario> {
+    const scenarios: Record<string, MockScenario> = {};
+    for (const entry of list.split(',').map(item => item.trim()).filter(Boolean)) {
+        const [portal, scenario] = entry.split('=').map(part => part.trim());
+        if (!MOCK_PORTALS.some(p => p.name === portal) || !isScenario(scenario)) {
+            throw new Error(
+                `Invalid MOCK_BANK_SCENARIOS entry "${entry}": use <portal>=<scenario> with portals ` +
+                `${MOCK_PORTALS.map(p => p.name).join(', ')} and scenarios ${MOCK_SCENARIOS.join(', ')}`
+            );
+        }
+        scenarios[portal] = scenario;
+    }
+    return scenarios;
+}
+
+export interface MockBankServer {
+    app: express.Express;
+    listen(port?: number): Promise<Server>;
+    close(): Promise<void>;
+}
+
+export function createMockBankServer(initialScenarios = process.env.MOCK_BANK_SCENARIOS || ''): MockBankServer {
+    const startup = parseScenarioList(initialScenarios);
+    let byPortal: Record<string, MockScenario> = { ...startup };
+    let byReference: Record<string, MockScenario> = {};
+
+    // Requests held open by the timeout scenario, released on close
+    const held = new Set<Socket>();
+    let server: Server | null = null;
+
+    const app = express();
+    app.use(express.json());
+
+    app.get('/_mock/scenarios', (_req: Request, res: Response) => {
+        res.json({ portals: byPortal, references: byReference, available: MOCK_SCENARIOS });
+    });
+
+    app.post('/_mock/scenarios', (req: Request, res: Response) => {
+        const { scenario, portal, reference } = req.body ?? {};
+        if (!isScenario(scenario)) {
+            res.status(400).json({ error: `scenario must be one of: ${MOCK_SCENARIOS.join(', ')}` });
+            return;
+        }
+        if (portal !== undefined && !MOCK_PORTALS.some(p => p.name === portal)) {
+            res.status(400).json({ error: `portal must be one of: ${MOCK_PORTALS.map(p => p.name).join(', ')}` });
+            return;
+        }
+
+        if (reference) {
+            byReference[String(reference).toUpperCase()] = scenario;
+        } else if (portal) {
+            byPortal[portal] = scenario;
+        } else {
+            byPortal = Object.fromEntries(MOCK_PORTALS.map(p => [p.name, scenario]));
+        }
+        res.json({ portals: byPortal, references: byReference });
+    });
+
+    app.delete('/_mock/scenarios', (_req: Request, res: Response) => {
+        byPortal = { ...startup };
+        byReference = {};
+        res.json({ portals: byPortal, references: byReference });
+    });
+
+    for (const portal of MOCK_PORTALS) {
+        app.get(`/${portal.host}${portal.path}`, (req: Request, res: Response) => {
+            const { reference, inputs } = portal.readRequest(req.params as Record<string, string>, req.query as Record<string, string>);
+            const scenario = byReference[reference.toUpperCase()] ?? byPortal[portal.name] ?? 'found';
+            console.log(`🏦 ${portal.name} ${reference || '(no reference)'} -> ${scenario}`);
+
+            if (scenario === 'timeout') {
+                // Say nothing; the caller's own timeout has to fire
+                held.add(req.socket);
+                const timer = setTimeout(() => res.destroy(), MOCK_TIMEOUT_MS);
+                res.on('close', () => {
+                    clearTimeout(timer);
+                    held.delete(req.socket);
+                });
+                return;
+            }
+
+            const response = portal.respond(scenario, reference, inputs);
+            res.status(response.status).type(response.contentType).send(response.body);
+        });
+    }
+
+    app.use((req: Request, res: Response) => {
+        res.status(404).json({ error: `No mock portal serves ${req.method} ${req.path}` });
+    });
+
+    return {
+        app,
+        listen(port = MOCK_BANK_PORT) {
+            return new Promise((resolve, reject) => {
+                const listening = app.listen(port, () => resolve(listening));
+                listening.on('error', reject);
+                server = listening;
+            });
+        },
+        async close() {
+            held.forEach(socket => socket.destroy());
+            held.clear();
+            await new Promise<void>(resolve => (server ? server.close(() => resolve()) : resolve()));
+            server = null;
+        }
+    };
+}
+
+if (require.main === module) {
+    const mock = createMockBankServer();
+    mock.listen().then(() => {
+        console.log(`🏦 Mock bank server listening on http://localhost:${MOCK_BANK_PORT}`);
+        console.log(`   Start the API with UPSTREAM_REDIRECT=http://localhost:${MOCK_BANK_PORT} to use it`);
+        MOCK_PORTALS.forEach(portal => console.log(`   ${portal.name.padEnd(15)} /${portal.host}${portal.path}`));
+    }).catch(error => {
+        console.error('Mock bank server failed to start:', error);
+        process.exit(1);
+    });
+
+    const shutdown = () => mock.close().then(() => process.exit(0));
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
@@ -0,0 +1,50 @@
+// Smallest document pdf-parse reads reliably, see the padding below
+const MIN_PDF_BYTES = 4096;
+
+// PDF string literals escape backslashes and parentheses
+const escapeText = (text: string) => text.replace(/[\\()]/g, char => `\\${char}`);
+
+/**
+ * Render lines of plain text onto a single A4 page. Enough for the receipt
+ * parsers, which only read the text layer.
+ */
+export function renderTextPdf(lines: string[], info: { producer?: string } = {}): Buffer {
+    const content = [
+        'BT',
+        '/F1 10 Tf',
+        '14 TL',
+        '50 800 Td',
+        ...lines.map(line => `(${escapeText(line)}) '`),
+        'ET'
+    ].join('\n');
+
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+        `<< /Producer (${escapeText(info.producer ?? 'Mock Bank Server')}) >>`
+    ];
+
+    // pdf-parse copies small documents into Node's shared buffer pool and then
+    // misreads every object offset, so short receipts are padded with a comment
+    const objectBytes = objects.reduce((total, object) => total + Buffer.byteLength(object, 'latin1'), 0);
+    let body = `%PDF-1.4\n%${' '.repeat(Math.max(0, MIN_PDF_BYTES - objectBytes))}\n`;
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+        offsets.push(Buffer.byteLength(body, 'latin1'));
+        body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(body, 'latin1');
+    // Every cross-reference entry is exactly 20 bytes, including its two-character line ending
+    const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f \n' + offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+    ].join('\n');
+    const trailer = `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body + xref + trailer, 'latin1');
+}
@@ -0,0 +1,259 @@
+import { renderTextPdf } from './pdf';
+
+export const MOCK_SCENARIOS = ['found', 'not_found', 'timeout', 'malformed'] as const;
+
+export type MockScenario = typeof MOCK_SCENARIOS[number];
+
+export interface MockResponse {
+    status: number;
+    contentType: string;
+    body: Buffer | string;
+}
+
+/**
+ * One emulated bank portal. `path` is the real portal's path, served under
+ * `/<host>` the way the upstream transport redirects requests.
+ */
+export interface MockPortal {
+    name: string;
+    host: string;
+    path: string;
+    // Reference and other inputs as the portal receives them
+    readRequest(params: Record<string, string>, query: Record<string, string>): { reference: string; inputs: Record<string, string> };
+    respond(scenario: Exclude<MockScenario, 'timeout'>, reference: string, inputs: Record<string, string>): MockResponse;
+}
+
+// Sample parties printed on every found receipt
+const PAYER = 'ABEBE KEBEDE';
+const RECEIVER = 'MEKDES TADESSE';
+const AMOUNT = '1,500.00';
+
+const pdf = (lines: string[]): MockResponse => ({ status: 200, contentType: 'application/pdf', body: renderTextPdf(lines) });
+const json = (status: number, body: unknown): MockResponse => ({ status, contentType: 'application/json', body: JSON.stringify(body) });
+const text = (status: number, body: string, contentType = 'text/plain'): MockResponse => ({ status, contentType, body });
+
+// A PDF cut short, the way a failed download or a portal error page looks to the parser
+const truncatedPdf = (lines: string[]): MockResponse => {
+    const full = renderTextPdf(lines);
+    return { status: 200, contentType: 'application/pdf', body: full.subarray(0, Math.floor(full.length / 3)) };
+};
+
+// Wall-clock time in Addis Ababa (UTC+3), the zone every portal prints
+function addisNow() {
+    const now = new Date(Date.now() + 3 * 60 * 60 * 1000);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const [year, month, day] = [now.getUTCFullYear(), pad(now.getUTCMonth() + 1), pad(now.getUTCDate())];
+    const [hours, minutes, seconds] = [now.getUTCHours(), pad(now.getUTCMinutes()), pad(now.getUTCSeconds())];
+    return {
+        // 10/19/2026, 9:15:00 AM
+        us: `${now.getUTCMonth() + 1}/${now.getUTCDate()}/${year}, ${hours % 12 || 12}:${minutes}:${seconds} ${hours < 12 ? 'AM' : 'PM'}`,
+        // 19-10-2026 09:15:00
+        dmy: `${day}-${month}-${year} ${pad(hours)}:${minutes}:${seconds}`,
+        // 2026-10-19 09:15:00
+        iso: `${year}-${month}-${day} ${pad(hours)}:${minutes}:${seconds}`
+    };
+}
+
+const cbeReceipt = (reference: string, suffix: string) => [
+    'Commercial Bank of Ethiopia',
+    'Customer Receipt',
+    `Payer ${PAYER}`,
+    'Account 1****4821',
+    `Receiver ${RECEIVER}`,
+    `Account 1****${suffix.slice(-4)}`,
+    `Payment Date & Time ${addisNow().us}`,
+    `Reference No. (VAT Invoice No) ${reference}`,
+    'Reason / Type of service Mock payment',
+    `Transferred Amount ${AMOUNT} ETB`,
+    'Commission or Service Charge 0.00 ETB',
+    `Total amount debited from customers account ${AMOUNT} ETB`
+];
+
+const dashenReceipt = (reference: string) => [
+    'Dashen Bank',
+    'Transaction Receipt',
+    `Sender Name ${PAYER}`,
+    'Sender Account Number 5010*****4821',
+    'Transaction Channel Mobile Banking',
+    'Service Type Account to Account',
+    'Narrative Mock payment',
+    `Receiver Name ${RECEIVER}`,
+    'Phone No 251911000000',
+    'Institution Name Dashen Bank',
+    `Transaction Reference ${reference}`,
+    `Transfer Reference ${reference}`,
+    `Transaction Date ${addisNow().us}`,
+    `Transaction Amount ETB ${AMOUNT}`,
+    'Service Charge ETB 0.00',
+    'VAT (15%) ETB 0.00',
+    `Total ETB ${AMOUNT}`
+];
+
+const cbeBirrReceipt = (reference: string, phone: string) => [
+    'CBE Birr',
+    'Customer Information',
+    `Customer Name: ${PAYER}`,
+    `Debit Account: ${phone}`,
+    `Credit Account: 1000248217654 - ${RECEIVER}`,
+    `Receiver Name: ${RECEIVER}`,
+    'Transaction Details',
+    `Order ID: ${reference}`,
+    'Transaction Status: Completed',
+    `Reference: ${reference}`,
+    `Receipt Number: ${reference}`,
+    `Transaction Date: ${addisNow().iso}`,
+    `Amount: ${AMOUNT}`,
+    `Paid Amount: ${AMOUNT}`,
+    'Service Charge: 0.00',
+    'VAT: 0.00',
+    `Total Paid Amount: ${AMOUNT}`,
+    'Payment Reason: Mock payment',
+    'Payment Channel: USSD'
+];
+
+// Telebirr fields as both the receipt page and the relay proxy report them
+const telebirrFields = (reference: string) => ({
+    payerName: PAYER,
+    payerTelebirrNo: '2519****0000',
+    creditedPartyName: RECEIVER,
+    creditedPartyAccountNo: '2519****4821',
+    transactionStatus: 'Completed',
+    receiptNo: reference,
+    paymentDate: addisNow().dmy,
+    settledAmount: '1500.00 Birr',
+    serviceFee: '0.00 Birr',
+    serviceFeeVAT: '0.00 Birr',
+    totalPaidAmount: '1500.00 Birr',
+    bankName: ''
+});
+
+// Same table layout and classes as transactioninfo.ethiotelecom.et, which the scraper depends on
+function telebirrPage(fields: ReturnType<typeof telebirrFields> | null): string {
+    const row = (label: string, value: string) =>
+        `<tr><td class="receipttableTd1">${label}</td><td class="receipttableTd">${value}</td></tr>`;
+    const rows = fields
+        ? [
+            row('የከፋይ ስም/Payer Name', fields.payerName),
+            row('የከፋይ ቴሌብር ቁ./Payer telebirr no.', fields.payerTelebirrNo),
+            row('የገንዘብ ተቀባይ ስም/Credited Party name', fields.creditedPartyName),
+            row('የገንዘብ ተቀባይ ቴሌብር ቁ./Credited party account no', fields.creditedPartyAccountNo),
+            row('የክፍያው ሁኔታ/transaction status', fields.transactionStatus)
+        ]
+        : [];
+    const details = fields
+        ? [
+            '<tr><td class="receipttableTd1">የክፍያ ቁጥር/Invoice No.</td><td class="receipttableTd1">የክፍያ ቀን/Payment date</td><td class="receipttableTd1">የተከፈለው መጠን/Settled Amount</td></tr>',
+            `<tr><td class="receipttableTd receipttableTd2">${fields.receiptNo}</td><td class="receipttableTd receipttableTd2">${fields.paymentDate}</td><td class="receipttableTd receipttableTd2">${fields.settledAmount}</td></tr>`,
+            `<tr><td class="receipttableTd1">የአገልግሎት ክፍያ/Service fee</td><td class="receipttableTd receipttableTd2">${fields.serviceFee}</td></tr>`,
+            `<tr><td class="receipttableTd1">የአገልግሎት ክፍያ ተ.እ.ታ/Service fee VAT</td><td class="receipttableTd receipttableTd2">${fields.serviceFeeVAT}</td></tr>`,
+            `<tr><td class="receipttableTd1">ጠቅላላ የተከፈለ/Total Paid Amount</td><td class="receipttableTd receipttableTd2">${fields.totalPaidAmount}</td></tr>`
+        ]
+        : [];
+    return [
+        '<!DOCTYPE html>',
+        '<html><head><meta charset="utf-8"><title>telebirr receipt</title></head><body>',
+        '<table>',
+        ...rows,
+        '</table>',
+        '<table>',
+        '<tr><td class="receipttableTd1">የክፍያ ዝርዝር/Transaction details</td></tr>',
+        ...details,
+        '</table>',
+        '</body></html>'
+    ].join('\n');
+}
+
+export const MOCK_PORTALS: MockPortal[] = [
+    {
+        name: 'cbe',
+        host: 'apps.cbe.com.et',
+        path: '/',
+        // ?id= is the reference followed by the 8-digit account suffix
+        readRequest: (_, query) => ({ reference: (query.id ?? '').slice(0, 12), inputs: { suffix: (query.id ?? '').slice(12) } }),
+        respond: (scenario, reference, { suffix }) => {
+            if (scenario === 'not_found') return text(404, 'Receipt not found');
+            if (scenario === 'malformed') return truncatedPdf(cbeReceipt(reference, suffix));
+            return pdf(cbeReceipt(reference, suffix));
+        }
+    },
+    {
+        name: 'telebirr',
+        host: 'transactioninfo.ethiotelecom.et',
+        path: '/receipt/:reference',
+        readRequest: params => ({ reference: params.reference ?? '', inputs: {} }),
+        respond: (scenario, reference) => {
+            const html = 'text/html; charset=utf-8';
+            // The real page answers 200 with an empty receipt for unknown numbers
+            if (scenario === 'not_found') return text(200, telebirrPage(null), html);
+            if (scenario === 'malformed') return text(200, '<html><body><div class="receipt">Service temporarily changed</div></body></html>', html);
+            return text(200, telebirrPage(telebirrFields(reference)), html);
+        }
+    },
+    {
+        name: 'telebirr-proxy',
+        host: 'leul.et',
+        path: '/verify.php',
+        readRequest: (_, query) => ({ reference: query.reference ?? '', inputs: {} }),
+        respond: (scenario, reference) => {
+            if (scenario === 'not_found') return json(404, { success: false, error: 'Receipt not found' });
+            if (scenario === 'malformed') return text(200, '{"success": true, "data": {"payerName": ', 'text/plain');
+            return json(200, { success: true, data: telebirrFields(reference) });
+        }
+    },
+    {
+        name: 'dashen',
+        host: 'receipt.dashensuperapp.com',
+        path: '/receipt/:reference',
+        readRequest: params => ({ reference: params.reference ?? '', inputs: {} }),
+        respond: (scenario, reference) => {
+            if (scenario === 'not_found') return text(404, 'Receipt not found');
+            if (scenario === 'malformed') return truncatedPdf(dashenReceipt(reference));
+            return pdf(dashenReceipt(reference));
+        }
+    },
+    {
+        name: 'abyssinia',
+        host: 'cs.bankofabyssinia.com',
+        path: '/api/onlineSlip/getDetails/',
+        // ?id= is the reference followed by the 5-digit account suffix
+        readRequest: (_, query) => ({ reference: (query.id ?? '').slice(0, 12), inputs: { suffix: (query.id ?? '').slice(12) } }),
+        respond: (scenario, reference, { suffix }) => {
+            // The slip API answers an unknown slip with an empty body list
+            if (scenario === 'not_found') return json(200, { header: { status: 'success' }, body: [] });
+            if (scenario === 'malformed') return json(200, { status: 'ok', slip: reference });
+            return json(200, {
+                header: { status: 'success' },
+                body: [
+                    {
+                        "Payer's Name": PAYER,
+                        'Source Account': `1****${suffix}`,
+                        'Source Account Name': RECEIVER,
+                        'Transferred Amount': `${AMOUNT} ETB`,
+                        'Transferred Amount In Word': 'One Thousand Five Hundred Birr',
+                        'Transaction Date': addisNow().iso,
+                        'Transaction Reference': reference,
+                        'Transaction Type': 'Funds Transfer',
+                        'Payment Reference': reference,
+                        'Service Charge': '0.00',
+                        'VAT': '0.00',
+                        'Total Amount Including VAT': AMOUNT,
+                        'Narrative': 'Mock payment',
+                        'Tel': '251911000000',
+                        'Address': 'Addis Ababa'
+                    }
+                ]
+            });
+        }
+    },
+    {
+        name: 'cbebirr',
+        host: 'cbepay1.cbe.com.et',
+        path: '/aureceipt',
+        readRequest: (_, query) => ({ reference: query.TID ?? '', inputs: { phone: query.PH ?? '' } }),
+        respond: (scenario, reference, { phone }) => {
+            if (scenario === 'not_found') return text(404, 'Receipt not found');
+            if (scenario === 'malformed') return truncatedPdf(cbeBirrReceipt(reference, phone));
+            return pdf(cbeBirrReceipt(reference, phone));
+        }
+    }
+];
@@ -1,7 +1,23 @@
 import { Router, Request, Response, RequestHandler, NextFunction } from 'express';
-import { generateApiKey, getApiKeys } from '../middleware/apiKeyAuth';
+import {
+    generateApiKey,
+    getApiKeys,
+    updateApiKeyLimits,
+    rotateApiKey,
+    updateApiKey,
+    revokeApiKey,
+    setApiKeyWebhook,
+    ApiKeyLimits,
+    ApiKeyChanges
+} from '../middleware/apiKeyAuth';
+import { getProvider } from '../services/providers';
 import { getUsageStats } from '../middleware/requestLogger';
+import { getResultCacheStats } from '../services/resultCache';
+import { getUpstreamHealth } from '../services/upstreamHealth';
+import { describeConfig } from '../utils/config';
 import logger from '../utils/logger';
+import { prisma } from '../utils/prisma';
+import { sendErrorResponse } from '../utils/errorHandler';
 
 const router = Router();
 
@@ -19,6 +35,103 @@ const checkAdminAuth = (req: Request, res: Response, next: NextFunction) => {
     next();
 };
 
+const LIMIT_FIELDS = ['rateLimitPerMinute', 'rateLimitBurst', 'dailyQuota', 'monthlyQuota'] as const;
+
+// Pick rate limit fields from a request body; null resets a field to the server default
+const parseLimits = (body: Record<string, unknown>): { limits: ApiKeyLimits; error?: string } => {
+    const limits: ApiKeyLimits = {};
+
+    for (const field of LIMIT_FIELDS) {
+        const value = body[field];
+        if (value === undefined) continue;
+        if (value !== null && (!Number.isInteger(value) || (value as number) <= 0)) {
+            return { limits, error: `${field} must be a positive integer or null` };
+        }
+        limits[field] = value as number | null;
+    }
+
+    return { limits };
+};
+
+// Validate the editable fields of PATCH /api-keys/:id
+const parseKeyChanges = (body: Record<string, unknown>): { changes: ApiKeyChanges; errors: string[] } => {
+    const changes: ApiKeyChanges = {};
+    const errors: string[] = [];
+    const { owner, isActive, expiresAt, notes, scopes } = body;
+
+    if (owner !== undefined) {
+        if (typeof owner !== 'string' || !owner.trim()) errors.push('owner must be a non-empty string');
+        else changes.owner = owner.trim();
+    }
+
+    if (isActive !== undefined) {
+        if (typeof isActive !== 'boolean') errors.push('isActive must be a boolean');
+        else changes.isActive = isActive;
+    }
+
+    if (expiresAt !== undefined) {
+        if (expiresAt === null) changes.expiresAt = null;
+        else if (typeof expiresAt !== 'string' || isNaN(Date.parse(expiresAt))) errors.push('expiresAt must be an ISO-8601 date or null');
+        else changes.expiresAt = new Date(expiresAt);
+    }
+
+    if (notes !== undefined) {
+        if (notes !== null && typeof notes !== 'string') errors.push('notes must be a string or null');
+        else changes.notes = notes;
+    }
+
+    if (scopes !== undefined) {
+        if (scopes === null) {
+            changes.scopes = null;
+        } else if (!Array.isArray(scopes) || scopes.some(scope => typeof scope !== 'string')) {
+            errors.push('scopes must be an array of provider names or null');
+        } else {
+            const unknown = scopes.filter(scope => !getProvider(scope));
+            if (unknown.length > 0) errors.push(`Unknown providers in scopes: ${unknown.join(', ')}`);
+            else changes.scopes = Array.from(new Set(scopes.map(scope => scope.toLowerCase())));
+        }
+    }
+
+    return { changes, errors };
+};
+
+// Admin view of a key; never includes hashes
+const formatApiKey = (key: {
+    id: string;
+    keyPrefix: string | null;
+    owner: string;
+    createdAt: Date;
+    lastUsed: Date | null;
+    usageCount: number;
+    isActive: boolean;
+    revokedAt: Date | null;
+    expiresAt: Date | null;
+    notes: string | null;
+    scopes: unknown;
+    webhookUrl: string | null;
+    rateLimitPerMinute: number | null;
+    rateLimitBurst: number | null;
+    dailyQuota: number | null;
+    monthlyQuota: number | null;
+}) => ({
+    id: key.id,
+    keyPrefix: key.keyPrefix,
+    owner: key.owner,
+    createdAt: key.createdAt,
+    lastUsed: key.lastUsed,
+    usageCount: key.usageCount,
+    isActive: key.isActive,
+    revokedAt: key.revokedAt,
+    expiresAt: key.expiresAt,
+    notes: key.notes,
+    scopes: key.scopes ?? null,
+    webhookUrl: key.webhookUrl,
+    rateLimitPerMinute: key.rateLimitPerMinute,
+    rateLimitBurst: key.rateLimitBurst,
+    dailyQuota: key.dailyQuota,
+    monthlyQuota: key.monthlyQuota
+});
+
 // Generate a new API key
 // Update the API key generation route
 router.post('/api-keys', checkAdminAuth as RequestHandler, async (req: Request, res: Response): Promise<void> => {
@@ -29,16 +142,28 @@ router.post('/api-keys', checkAdminAuth as RequestHandler, async (req: Request,
         return;
     }
 
+    const { limits, error } = parseLimits(req.body);
+    if (error) {
+        res.status(400).json({ success: false, error });
+        return;
+    }
+
     try {
-        const apiKey = await generateApiKey(owner);
+        const apiKey = await generateApiKey(owner, limits);
         logger.info(`New API key generated for ${owner}`);
 
         res.status(201).json({
             success: true,
             data: {
                 key: apiKey.key,
+                id: apiKey.id,
+                keyPrefix: apiKey.keyPrefix,
                 owner: apiKey.owner,
-                createdAt: apiKey.createdAt
+                createdAt: apiKey.createdAt,
+                rateLimitPerMinute: apiKey.rateLimitPerMinute,
+                rateLimitBurst: apiKey.rateLimitBurst,
+                dailyQuota: apiKey.dailyQuota,
+                monthlyQuota: apiKey.monthlyQuota
             }
         });
     } catch (err) {
@@ -51,21 +176,7 @@ router.post('/api-keys', checkAdminAuth as RequestHandler, async (req: Request,
 router.get('/api-keys', checkAdminAuth as RequestHandler, async (req: Request, res: Response) => {
     try {
         const apiKeys = await getApiKeys();
-        const keyList = apiKeys.map((key: {
-            key: string;
-            owner: string;
-            createdAt: Date;
-            lastUsed: Date | null;
-            usageCount: number;
-            isActive: boolean;
-        }) => ({
-            key: key.key.substring(0, 8) + '...',
-            owner: key.owner,
-            createdAt: key.createdAt,
-            lastUsed: key.lastUsed,
-            usageCount: key.usageCount,
-            isActive: key.isActive
-        }));
+        const keyList = apiKeys.map(formatApiKey);
 
         res.json({ success: true, data: keyList });
     } catch (err) {
@@ -74,13 +185,150 @@ router.get('/api-keys', checkAdminAuth as RequestHandler, async (req: Request, r
     }
 });
 
+// Update owner, status, expiry, notes or scopes of an API key
+router.patch('/api-keys/:id', checkAdminAuth as RequestHandler, async (req: Request, res: Response): Promise<void> => {
+    const { changes, errors } = parseKeyChanges(req.body ?? {});
+
+    if (errors.length > 0) {
+        res.status(400).json({ success: false, error: 'Invalid API key changes', details: errors });
+        return;
+    }
+
+    if (Object.keys(changes).length === 0) {
+        res.status(400).json({ success: false, error: 'No changes provided' });
+        return;
+    }
+
+    try {
+        const apiKey = await updateApiKey(req.params.id, changes);
+        logger.info(`API key ${apiKey.id} updated`, { fields: Object.keys(changes) });
+        res.json({ success: true, data: formatApiKey(apiKey) });
+    } catch (err) {
+        logger.error('Error updating API key:', err);
+        sendErrorResponse(res, err);
+    }
+});
+
+// Revoke an API key (soft delete; reactivate with PATCH isActive=true)
+router.delete('/api-keys/:id', checkAdminAuth as RequestHandler, async (req: Request, res: Response): Promise<void> => {
+    try {
+        const apiKey = await revokeApiKey(req.params.id);
+        logger.info(`API key ${apiKey.id} revoked`);
+        res.json({ success: true, data: formatApiKey(apiKey) });
+    } catch (err) {
+        logger.error('Error revoking API key:', err);
+        sendErrorResponse(res, err);
+    }
+});
+
+// Register the webhook that receives async verification results
+router.put('/api-keys/:id/webhook', checkAdminAuth as RequestHandler, async (req: Request, res: Response): Promise<void> => {
+    const { url, rotateSecret } = req.body ?? {};
+
+    if (url !== null && (typeof url !== 'string' || !/^https?:\/\/\S+$/i.test(url))) {
+        res.status(400).json({ success: false, error: 'url must be an http(s) URL or null' });
+        return;
+    }
+
+    try {
+        const apiKey = await setApiKeyWebhook(req.params.id, url, rotateSecret === true);
+        logger.info(`Webhook ${url ? 'registered' : 'cleared'} for API key ${apiKey.id}`);
+
+        res.json({
+            success: true,
+            data: {
+                id: apiKey.id,
+                webhookUrl: apiKey.webhookUrl,
+                webhookSecret: apiKey.webhookSecret
+            }
+        });
+    } catch (err) {
+        logger.error('Error updating webhook:', err);
+        sendErrorResponse(res, err);
+    }
+});
+
+// Recent webhook delivery attempts of an API key
+router.get('/api-keys/:id/webhook-deliveries', checkAdminAuth as RequestHandler, async (req: Request, res: Response) => {
+    try {
+        const deliveries = await prisma.webhookDelivery.findMany({
+            where: { apiKeyId: req.params.id },
+            orderBy: { createdAt: 'desc' },
+            take: 100
+        });
+        res.json({ success: true, data: deliveries });
+    } catch (err) {
+        logger.error('Error fetching webhook deliveries:', err);
+        sendErrorResponse(res, err);
+    }
+});
+
+// Configure rate limits and quotas of an API key
+router.put('/api-keys/:id/limits', checkAdminAuth as RequestHandler, async (req: Request, res: Response): Promise<void> => {
+    const { limits, error } = parseLimits(req.body ?? {});
+
+    if (error) {
+        res.status(400).json({ success: false, error });
+        return;
+    }
+
+    try {
+        const apiKey = await updateApiKeyLimits(req.params.id, limits);
+        logger.info(`Rate limits updated for API key ${apiKey.id}`, limits);
+
+        res.json({
+            success: true,
+            data: {
+                id: apiKey.id,
+                owner: apiKey.owner,
+                rateLimitPerMinute: apiKey.rateLimitPerMinute,
+                rateLimitBurst: apiKey.rateLimitBurst,
+                dailyQuota: apiKey.dailyQuota,
+                monthlyQuota: apiKey.monthlyQuota
+            }
+        });
+    } catch (err) {
+        logger.error('Error updating API key limits:', err);
+        sendErrorResponse(res, err);
+    }
+});
+
+// Issue a new secret for a key; the old one keeps working during the grace period
+router.post('/api-keys/:id/rotate', checkAdminAuth as RequestHandler, async (req: Request, res: Response): Promise<void> => {
+    const { gracePeriodSeconds } = req.body ?? {};
+
+    if (gracePeriodSeconds !== undefined && (!Number.isInteger(gracePeriodSeconds) || gracePeriodSeconds < 0)) {
+        res.status(400).json({ success: false, error: 'gracePeriodSeconds must be a non-negative integer' });
+        return;
+    }
+
+    try {
+        const apiKey = await rotateApiKey(req.params.id, gracePeriodSeconds);
+        logger.info(`API key ${apiKey.id} rotated`, { previousKeyExpiresAt: apiKey.previousKeyExpiresAt });
+
+        res.json({
+            success: true,
+            data: {
+                key: apiKey.key,
+                id: apiKey.id,
+                keyPrefix: apiKey.keyPrefix,
+                owner: apiKey.owner,
+                previousKeyExpiresAt: apiKey.previousKeyExpiresAt
+            }
+        });
+    } catch (err) {
+        logger.error('Error rotating API key:', err);
+        sendErrorResponse(res, err);
+    }
+});
+
 // Update the stats route
 router.get('/stats', checkAdminAuth as RequestHandler, async (req: Request, res: Response) => {
     try {
         const stats = await getUsageStats();
         res.json({
             success: true,
-            data: stats
+            data: { ...stats, resultCache: getResultCacheStats() }
         });
     } catch (err) {
         logger.error('Error fetching usage stats:', err);
@@ -88,4 +336,14 @@ router.get('/stats', checkAdminAuth as RequestHandler, async (req: Request, res:
     }
 });
 
+// Circuit breaker state, error rate and p95 latency of each bank portal
+router.get('/upstreams', checkAdminAuth as RequestHandler, (req: Request, res: Response) => {
+    res.json({ success: true, data: getUpstreamHealth() });
+});
+
+// Effective provider settings, credentials redacted
+router.get('/config', checkAdminAuth as RequestHandler, (req: Request, res: Response) => {
+    res.json({ success: true, data: describeConfig() });
+});
+
 export default router;
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { Router, Request, Response } from 'express';
+import { getVerificationJob } from '../services/jobQueue';
+import { sendErrorResponse } from '../utils/errorHandler';
+import logger from '../utils/logger';
+
+const router = Router();
+
+/**
+ * GET /jobs/:id
+ * Poll the status of an async verification job owned by the calling API key
+ */
+router.get('/:id', async (req: Request<{ id: string }>, res: Response): Promise<void> => {
+    try {
+        const job = await getVerificationJob(req.params.id, (req as any).apiKeyData.id);
+
+        if (!job) {
+            res.status(404).json({ success: false, error: 'Job not found' });
+            return;
+        }
+
+        res.json({
+            success: true,
+            data: {
+                id: job.id,
+                provider: job.provider,
+                status: job.status.toLowerCase(),
+                attempts: job.attempts,
+                createdAt: job.createdAt,
+                completedAt: job.completedAt,
+                result: job.result,
+                error: job.error
+            }
+        });
+    } catch (err) {
+        logger.error('Error fetching verification job:', err);
+        sendErrorResponse(res, err);
+    }
+});
+
+export default router;
@@ -0,0 +1,80 @@
+import { Router, Request, Response } from 'express';
+import path from 'path';
+import { checkSpreadsheet, reconcile, readSpreadsheet, writeReconciliation, SpreadsheetFormat } from '../services/reconciliation';
+import { bypassesCache } from '../services/resultCache';
+import { chargeRequests } from '../middleware/rateLimit';
+import { singleFileUpload } from '../middleware/upload';
+import { sendErrorResponse } from '../utils/errorHandler';
+import logger from '../utils/logger';
+
+const router = Router();
+
+// Expected-payment exports are small; keep them in memory
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function detectFormat(file: Express.Multer.File): SpreadsheetFormat | null {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (extension === '.xlsx' || file.mimetype === XLSX_MIME) return 'xlsx';
+    if (extension === '.csv' || file.mimetype === 'text/csv') return 'csv';
+    return null;
+}
+
+/**
+ * POST /reconcile
+ * Verify a CSV or XLSX export of expected payments and return it annotated
+ * Form data: file (columns: order id, provider, reference, suffix/phone, amount)
+ * Query: ?format=json returns the rows as JSON instead of a file; ?consume=true claims matched receipts
+ */
+router.post('/', singleFileUpload('file', MAX_FILE_BYTES), async (req: Request, res: Response): Promise<void> => {
+    if (!req.file) {
+        res.status(400).json({ success: false, error: 'Upload the expected payments as "file" (CSV or XLSX)' });
+        return;
+    }
+
+    const format = detectFormat(req.file);
+    if (!format) {
+        res.status(400).json({ success: false, error: 'Unsupported file type. Upload a .csv or .xlsx file' });
+        return;
+    }
+
+    try {
+        const table = await readSpreadsheet(req.file.buffer, format);
+        // Every row is a verification, so each counts against the rate limit and quotas
+        if (!(await chargeRequests(req, res, checkSpreadsheet(table)))) return;
+
+        const cancel = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) cancel.abort();
+        });
+
+        const apiKey = req.headers.authorization?.replace('Bearer ', '') || req.headers['x-api-key'] as string;
+        const result = await reconcile(table, {
+            keyData: (req as any).apiKeyData,
+            context: { apiKey },
+            noCache: bypassesCache(req.headers['cache-control']),
+            consume: req.query.consume === 'true',
+            signal: cancel.signal
+        });
+
+        if (req.query.format === 'json') {
+            res.json({ success: true, data: { summary: result.summary, rows: result.rows } });
+            return;
+        }
+
+        const file = await writeReconciliation(result, format);
+        const name = path.basename(req.file.originalname, path.extname(req.file.originalname));
+        res.set({
+            'Content-Type': format === 'xlsx' ? XLSX_MIME : 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="${name.replace(/[^\w.-]/g, '_')}-reconciled.${format}"`,
+            'X-Reconciliation-Summary': JSON.stringify(result.summary)
+        });
+        res.send(file);
+    } catch (err) {
+        logger.error('Error reconciling payments file:', err);
+        sendErrorResponse(res, err);
+    }
+});
+
+export default router;
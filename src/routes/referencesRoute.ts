@@ -0,0 +1,39 @@
+import { Router, Request, Response } from 'express';
+import '../services/providers';
+import { analyzeReference } from '../services/referenceAnalysis';
+import { ErrorType, ProviderError, sendErrorResponse } from '../utils/errorHandler';
+
+const router = Router();
+
+interface DetectRequestBody {
+    reference?: unknown;
+    [field: string]: unknown;
+}
+
+/**
+ * POST /references/detect
+ * Guess the provider(s) a reference belongs to without calling any bank
+ * Body: { reference: string, suffix?: string, phone?: string }
+ */
+router.post('/detect', (req: Request<{}, {}, DetectRequestBody>, res: Response): void => {
+    const { reference, ...payload } = req.body ?? {};
+
+    if (typeof reference !== 'string' || !reference.trim()) {
+        res.status(400).json({ success: false, error: 'reference is required' });
+        return;
+    }
+
+    const analysis = analyzeReference(reference, payload);
+    if (analysis.candidates.length === 0) {
+        sendErrorResponse(res, new ProviderError(
+            ErrorType.INVALID_REFERENCE_FORMAT,
+            'Reference does not match the format of any supported provider',
+            { reference: analysis.reference }
+        ));
+        return;
+    }
+
+    res.json({ success: true, data: analysis });
+});
+
+export default router;
@@ -0,0 +1,118 @@
+import { Router, Request, Response } from 'express';
+import path from 'path';
+import { detectPdfProvider, parseUploadedPdf, compareReceipts } from '../services/pdfReceipts';
+import { inspectPdfMetadata } from '../services/tamperDetection';
+import { parseVerificationRequest, executeVerification } from '../services/verificationRunner';
+import { bypassesCache } from '../services/resultCache';
+import { NormalizedReceipt } from '../services/normalizedReceipt';
+import { keyAllowsProvider } from '../middleware/apiKeyAuth';
+import { coerceFormFields, singleFileUpload } from '../middleware/upload';
+import { AppError, ErrorType, ProviderError, providerErrorBody, sendErrorResponse } from '../utils/errorHandler';
+import logger from '../utils/logger';
+
+const router = Router();
+
+const MAX_PDF_BYTES = 10 * 1024 * 1024;
+
+/**
+ * POST /verify-pdf
+ * Verify a receipt PDF the customer sent: detect the issuing bank, parse the
+ * upload and compare it with the copy fetched from the bank
+ * Form data: file (PDF), suffix (CBE), plus any other input the provider needs;
+ * consume=true|false, and expect as JSON or expect[field] fields
+ */
+router.post('/', singleFileUpload('file', MAX_PDF_BYTES), async (req: Request, res: Response): Promise<void> => {
+    const file = req.file;
+    if (!file) {
+        res.status(400).json({ success: false, error: 'Upload the receipt PDF as "file"' });
+        return;
+    }
+    if (file.mimetype !== 'application/pdf' && path.extname(file.originalname).toLowerCase() !== '.pdf') {
+        res.status(400).json({ success: false, error: 'Only PDF receipts are supported' });
+        return;
+    }
+
+    try {
+        const provider = await detectPdfProvider(file.buffer);
+        const keyData = (req as any).apiKeyData;
+        if (keyData && !keyAllowsProvider(keyData, provider.name)) {
+            res.status(403).json({
+                success: false,
+                code: 'SCOPE_DENIED',
+                error: `API key is not allowed to verify ${provider.name} payments`
+            });
+            return;
+        }
+
+        logger.info(`📄 Uploaded PDF recognised as a ${provider.name} receipt`);
+        let parsed: Awaited<ReturnType<typeof parseUploadedPdf>>;
+        try {
+            parsed = await parseUploadedPdf(provider, file.buffer);
+        } catch (err) {
+            // The bank's own layout could not be read from the upload: the file is at fault, not the bank
+            if (err instanceof ProviderError && err.type === ErrorType.PARSE_FAILED) {
+                res.status(422).json({ ...providerErrorBody(err), provider: provider.name });
+                return;
+            }
+            if (err instanceof AppError) throw err;
+            logger.warn(`Could not parse uploaded ${provider.name} PDF:`, err);
+            res.status(422).json({
+                success: false,
+                code: ErrorType.PARSE_FAILED,
+                error: `The uploaded ${provider.name} receipt could not be read`,
+                provider: provider.name
+            });
+            return;
+        }
+        const { receipt: uploaded, lookupInput } = parsed;
+        const { metadata, signals } = await inspectPdfMetadata(file.buffer);
+
+        // Inputs the PDF does not show in full (e.g. the CBE account suffix) come from the form
+        const form = coerceFormFields(req.body ?? {}, { booleans: ['consume'], json: ['expect'] });
+        const { request, error } = parseVerificationRequest(provider.name, { ...form, ...lookupInput }, keyData?.id);
+        if (error) {
+            res.status(error.status).json({ ...error.body, provider: provider.name, uploaded });
+            return;
+        }
+
+        const apiKey = req.headers.authorization?.replace('Bearer ', '') || req.headers['x-api-key'] as string;
+        request.noCache = bypassesCache(req.headers['cache-control']);
+        const { status, body, headers } = await executeVerification(request, { apiKey });
+        if (headers) {
+            res.set(headers);
+        }
+
+        // The bank has no such receipt, or could not be reached: report that as is
+        if (status !== 200) {
+            res.status(status).json({ ...body, uploaded, tamperSignals: signals, metadata });
+            return;
+        }
+
+        const authoritative = body.data as NormalizedReceipt;
+        const discrepancies = compareReceipts(uploaded, authoritative);
+        const tamperSuspected = discrepancies.length > 0 || signals.length > 0;
+        if (tamperSuspected) {
+            logger.warn(`⚠️ Uploaded ${provider.name} receipt looks tampered with`, {
+                fields: discrepancies.map(d => d.field),
+                signals
+            });
+        }
+
+        res.json({
+            success: true,
+            provider: provider.name,
+            verified: discrepancies.length === 0,
+            tamperSuspected,
+            discrepancies,
+            tamperSignals: signals,
+            metadata,
+            uploaded,
+            authoritative
+        });
+    } catch (err) {
+        logger.error('Error verifying uploaded PDF:', err);
+        sendErrorResponse(res, err);
+    }
+});
+
+export default router;
@@ -0,0 +1,120 @@
+import { Router, Request, Response, RequestHandler } from 'express';
+import { listProviders, describeProvider } from '../services/providers';
+import { parseVerificationRequest, executeVerification } from '../services/verificationRunner';
+import { bypassesCache } from '../services/resultCache';
+import { parseBatch, runBatch } from '../services/batchVerification';
+import { chargeRequests } from '../middleware/rateLimit';
+
+const router = Router();
+
+interface VerifyRequestBody {
+    provider?: string;
+    [field: string]: unknown;
+}
+
+/**
+ * GET /verify/providers
+ * List registered providers and the inputs each one requires
+ */
+router.get('/providers', (req: Request, res: Response) => {
+    res.json({ success: true, data: listProviders().map(describeProvider) });
+});
+
+// Validate, run and answer one verification the same way for every route
+async function respondWithVerification(
+    req: Request,
+    res: Response,
+    provider: unknown,
+    payload: Record<string, unknown>
+): Promise<void> {
+    const { request, error } = parseVerificationRequest(provider, payload, (req as any).apiKeyData?.id);
+
+    if (error) {
+        res.status(error.status).json(error.body);
+        return;
+    }
+
+    const apiKey = req.headers.authorization?.replace('Bearer ', '') || req.headers['x-api-key'] as string;
+    request.noCache = bypassesCache(req.headers['cache-control']);
+    const { status, body, headers } = await executeVerification(request, { apiKey });
+    if (headers) {
+        res.set(headers);
+    }
+    res.status(status).json(body);
+}
+
+/**
+ * Handler of a per-provider route such as `POST /verify-cbe`. It runs the
+ * `POST /verify` pipeline with the provider fixed, so `expect`, `consume`,
+ * `orderId` and the result cache work there too. GET reads the provider
+ * inputs from the query string.
+ */
+export const verifyWithProvider = (provider: string): RequestHandler => async (req, res) => {
+    const payload = req.method === 'GET' ? req.query : req.body ?? {};
+    await respondWithVerification(req, res, provider, payload as Record<string, unknown>);
+};
+
+/**
+ * POST /verify
+ * Verify a transaction with any registered provider
+ * Body: { provider: string, expect?: PaymentExpectation, consume?: boolean, orderId?: string, ...provider inputs }
+ * Query: ?async=true returns a job id and delivers the result to the key's webhook
+ * Headers: Cache-Control: no-cache skips the result cache; the response carries X-Cache: HIT|MISS
+ */
+router.post('/', async (req: Request<{}, {}, VerifyRequestBody>, res: Response): Promise<void> => {
+    const { provider, ...payload } = req.body ?? {};
+    await respondWithVerification(req, res, provider, payload);
+});
+
+/**
+ * POST /verify/batch
+ * Verify many transactions, possibly with different providers, in one call
+ * Body: { items: [{ provider: string, clientId?: string, ...provider inputs }] }
+ * Query: ?stream=true (or Accept: application/x-ndjson) streams one NDJSON line per item as it completes
+ */
+router.post('/batch', async (req: Request, res: Response): Promise<void> => {
+    const { items, error } = parseBatch(req.body ?? {});
+    if (error) {
+        res.status(error.status).json(error.body);
+        return;
+    }
+
+    // Every item counts against the rate limit and quotas, not just the request
+    if (!(await chargeRequests(req, res, items.length))) return;
+
+    // Stop starting items once the client is gone; `close` before the response finished means a disconnect
+    const cancel = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) cancel.abort();
+    });
+
+    const apiKey = req.headers.authorization?.replace('Bearer ', '') || req.headers['x-api-key'] as string;
+    const options = {
+        keyData: (req as any).apiKeyData,
+        context: { apiKey },
+        noCache: bypassesCache(req.headers['cache-control']),
+        signal: cancel.signal
+    };
+
+    const stream = req.query.stream === 'true' || Boolean(req.headers.accept?.includes('application/x-ndjson'));
+    if (!stream) {
+        const { results, summary } = await runBatch(items, options);
+        res.json({ success: true, data: { ...summary, results } });
+        return;
+    }
+
+    res.status(200);
+    res.set('Content-Type', 'application/x-ndjson');
+    res.flushHeaders();
+
+    const write = (line: object) => {
+        if (!res.writableEnded && !res.destroyed) {
+            res.write(`${JSON.stringify(line)}\n`);
+        }
+    };
+    const { summary } = await runBatch(items, { ...options, onResult: result => write({ type: 'result', ...result }) });
+    write({ type: 'summary', ...summary });
+    res.end();
+});
+
+export default router;
@@ -0,0 +1,150 @@
+import { parseVerificationRequest, executeVerification, VerificationResponse } from './verificationRunner';
+import { ProviderContext } from './providers';
+import { keyAllowsProvider } from '../middleware/apiKeyAuth';
+import { createSemaphore, Semaphore } from '../utils/semaphore';
+import logger from '../utils/logger';
+
+// Most items accepted in one batch
+export const BATCH_MAX_ITEMS = parseInt(process.env.BATCH_MAX_ITEMS || '200', 10);
+// Items of one batch run at the same time per provider, so a single batch cannot take every provider slot
+const BATCH_PROVIDER_CONCURRENCY = parseInt(process.env.BATCH_PROVIDER_CONCURRENCY || '2', 10);
+
+export interface BatchItemResult {
+    index: number;
+    clientId?: string;
+    provider: string | null;
+    status: number;
+    body: Record<string, unknown>;
+}
+
+export interface BatchSummary {
+    total: number;
+    succeeded: number;
+    failed: number;
+}
+
+export interface BatchOptions {
+    keyData?: { id?: string; scopes?: unknown };
+    context?: ProviderContext;
+    noCache?: boolean;
+    // Called as each item finishes, in completion order
+    onResult?: (result: BatchItemResult) => void;
+    // Aborted when the client goes away; items that have not started are skipped
+    signal?: AbortSignal;
+}
+
+export type ParsedBatch =
+    | { items: Record<string, unknown>[]; error?: undefined }
+    | { items?: undefined; error: VerificationResponse };
+
+export function parseBatch(body: Record<string, unknown>): ParsedBatch {
+    const { items } = body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+        return { error: { status: 400, body: { success: false, error: 'items must be a non-empty array' } } };
+    }
+    if (items.length > BATCH_MAX_ITEMS) {
+        return {
+            error: {
+                status: 400,
+                body: { success: false, error: `A batch accepts at most ${BATCH_MAX_ITEMS} items, got ${items.length}` }
+            }
+        };
+    }
+    if (items.some(item => !item || typeof item !== 'object' || Array.isArray(item))) {
+        return { error: { status: 400, body: { success: false, error: 'Every item must be an object' } } };
+    }
+
+    return { items: items as Record<string, unknown>[] };
+}
+
+// Identifies an item in its result, whether or not it could be run
+const itemBase = (item: Record<string, unknown>, index: number) => ({
+    index,
+    ...(item.clientId !== undefined && item.clientId !== null && { clientId: String(item.clientId) }),
+    provider: typeof item.provider === 'string' ? item.provider.toLowerCase() : null
+});
+
+async function runItem(
+    item: Record<string, unknown>,
+    index: number,
+    options: BatchOptions,
+    slotsFor: (provider: string) => Semaphore
+): Promise<BatchItemResult> {
+    const { provider, clientId, ...payload } = item;
+    const base = itemBase(item, index);
+
+    const { request, error } = parseVerificationRequest(provider, payload, options.keyData?.id);
+    if (error) {
+        return { ...base, status: error.status, body: error.body };
+    }
+
+    if (options.keyData && !keyAllowsProvider(options.keyData, request.provider)) {
+        return {
+            ...base,
+            status: 403,
+            body: { success: false, code: 'SCOPE_DENIED', error: `API key is not allowed to verify ${request.provider} payments` }
+        };
+    }
+
+    request.noCache = options.noCache;
+    const release = await slotsFor(request.provider).acquire();
+    try {
+        if (options.signal?.aborted) {
+            return { ...base, status: 499, body: { success: false, code: 'CANCELLED', error: 'The client disconnected before this item ran' } };
+        }
+        const { status, body } = await executeVerification(request, options.context);
+        return { ...base, status, body };
+    } finally {
+        release();
+    }
+}
+
+/**
+ * Verify every item of a batch. Items run concurrently, bounded per
+ * provider both within the batch and by the global provider slots; a
+ * failing item only affects its own result. Results are returned in the
+ * order of the items.
+ */
+export async function runBatch(
+    items: Record<string, unknown>[],
+    options: BatchOptions = {}
+): Promise<{ results: BatchItemResult[]; summary: BatchSummary }> {
+    const semaphores = new Map<string, Semaphore>();
+    const slotsFor = (provider: string) => {
+        let semaphore = semaphores.get(provider);
+        if (!semaphore) {
+            semaphore = createSemaphore(BATCH_PROVIDER_CONCURRENCY);
+            semaphores.set(provider, semaphore);
+        }
+        return semaphore;
+    };
+
+    logger.info(`📦 Running verification batch of ${items.length} items`);
+
+    const results = await Promise.all(items.map(async (item, index) => {
+        let result: BatchItemResult;
+        try {
+            result = await runItem(item, index, options, slotsFor);
+        } catch (err) {
+            logger.error(`Batch item ${index} failed unexpectedly:`, err);
+            result = {
+                ...itemBase(item, index),
+                status: 500,
+                body: { success: false, error: 'Internal server error during verification' }
+            };
+        }
+        options.onResult?.(result);
+        return result;
+    }));
+
+    const succeeded = results.filter(result => result.status < 400).length;
+    const summary = { total: results.length, succeeded, failed: results.length - succeeded };
+    if (options.signal?.aborted) {
+        logger.warn(`📦 Batch cancelled by the client: ${results.filter(result => result.status === 499).length} items skipped`);
+    } else {
+        logger.info(`📦 Batch finished: ${summary.succeeded} succeeded, ${summary.failed} failed`);
+    }
+
+    return { results, summary };
+}
@@ -0,0 +1,225 @@
+import { maskAccount, ReceiptFields, ReceiptStatus, toMinorUnits } from './normalizedReceipt';
+
+/**
+ * Optional `expect` block on verify requests. Amounts are given in ETB
+ * (e.g. 150.50) and compared against the receipt in minor units.
+ * `status` defaults to `completed`, so a pending or failed payment never matches.
+ */
+export interface PaymentExpectation {
+    status?: ReceiptStatus;
+    minAmount?: number;
+    exactAmount?: number;
+    receiverAccountSuffix?: string;
+    receiverName?: string;
+    notBefore?: string;
+    notAfter?: string;
+}
+
+export interface AssertionResult {
+    name: keyof PaymentExpectation;
+    passed: boolean;
+    expected: string | number;
+    actual: string | number | null;
+    message?: string;
+}
+
+export interface ExpectationReport {
+    matched: boolean;
+    assertions: AssertionResult[];
+}
+
+const AMOUNT_FIELDS = ['minAmount', 'exactAmount'] as const;
+const DATE_FIELDS = ['notBefore', 'notAfter'] as const;
+const TEXT_FIELDS = ['receiverAccountSuffix', 'receiverName'] as const;
+const STATUSES: ReceiptStatus[] = ['completed', 'pending', 'failed', 'unknown'];
+
+/**
+ * Validate a raw `expect` payload. Unknown keys are rejected so that
+ * typos such as `minAmmount` do not silently pass every payment.
+ */
+export function parseExpectation(raw: unknown): { expectation?: PaymentExpectation; errors: string[] } {
+    if (raw === undefined || raw === null) return { errors: [] };
+
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        return { errors: ['expect must be an object'] };
+    }
+
+    const errors: string[] = [];
+    const expectation: PaymentExpectation = {};
+    const known = new Set<string>(['status', ...AMOUNT_FIELDS, ...DATE_FIELDS, ...TEXT_FIELDS]);
+
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+        if (!known.has(key)) {
+            errors.push(`expect.${key} is not a supported assertion`);
+        }
+    }
+
+    for (const field of AMOUNT_FIELDS) {
+        const value = (raw as Record<string, unknown>)[field];
+        if (value === undefined) continue;
+        const amount = typeof value === 'string' ? Number(value) : value;
+        if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+            errors.push(`expect.${field} must be a non-negative amount in ETB`);
+        } else {
+            expectation[field] = amount;
+        }
+    }
+
+    for (const field of DATE_FIELDS) {
+        const value = (raw as Record<string, unknown>)[field];
+        if (value === undefined) continue;
+        if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+            errors.push(`expect.${field} must be an ISO-8601 date`);
+        } else {
+            expectation[field] = value;
+        }
+    }
+
+    for (const field of TEXT_FIELDS) {
+        const value = (raw as Record<string, unknown>)[field];
+        if (value === undefined) continue;
+        if (typeof value !== 'string' || !value.trim()) {
+            errors.push(`expect.${field} must be a non-empty string`);
+        } else {
+            expectation[field] = value.trim();
+        }
+    }
+
+    const status = (raw as Record<string, unknown>).status;
+    if (status !== undefined) {
+        if (!STATUSES.includes(status as ReceiptStatus)) {
+            errors.push(`expect.status must be one of ${STATUSES.join(', ')}`);
+        } else {
+            expectation.status = status as ReceiptStatus;
+        }
+    }
+
+    if (expectation.receiverAccountSuffix && !/^\d+$/.test(expectation.receiverAccountSuffix)) {
+        errors.push('expect.receiverAccountSuffix must contain digits only');
+    }
+
+    return errors.length > 0 ? { errors } : { expectation, errors };
+}
+
+function levenshtein(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+        let previous = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = Math.min(
+                row[j] + 1,
+                row[j - 1] + 1,
+                previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            previous = current;
+        }
+    }
+
+    return row[b.length];
+}
+
+const nameTokens = (name: string): string[] =>
+    name.toLowerCase().replace(/[^\p{L}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+/**
+ * Fuzzy name match: every token of the expected name must appear in the
+ * receipt name, allowing one typo per token of four or more letters.
+ * Receipts often carry extra names (e.g. a grandfather's name), so
+ * additional tokens on the receipt side are ignored.
+ */
+export function namesMatch(expected: string, actual: string): boolean {
+    const actualTokens = nameTokens(actual);
+    const expectedTokens = nameTokens(expected);
+    if (expectedTokens.length === 0) return false;
+
+    return expectedTokens.every(token =>
+        actualTokens.some(candidate =>
+            candidate === token || (token.length >= 4 && levenshtein(candidate, token) <= 1)
+        )
+    );
+}
+
+// Digits at the end of an account; banks that mask accounts (e.g. "1****1234") only print the last few
+const trailingDigits = (account: string): string => account.replace(/\s+/g, '').match(/\d*$/)![0];
+
+/**
+ * Check a receipt against the caller's expectation. Takes the provider's
+ * fields before masking so account suffixes are compared on every digit
+ * the bank returned.
+ */
+export function evaluateExpectation(
+    receipt: ReceiptFields,
+    expectation: PaymentExpectation
+): ExpectationReport {
+    const assertions: AssertionResult[] = [];
+    const missing = (name: keyof PaymentExpectation, expected: string | number) =>
+        assertions.push({ name, passed: false, expected, actual: null, message: 'Value not available on receipt' });
+
+    const status = expectation.status ?? 'completed';
+    assertions.push({ name: 'status', passed: receipt.status === status, expected: status, actual: receipt.status });
+
+    if (expectation.minAmount !== undefined) {
+        const expected = toMinorUnits(expectation.minAmount)!;
+        if (receipt.amount === null) missing('minAmount', expected);
+        else assertions.push({ name: 'minAmount', passed: receipt.amount >= expected, expected, actual: receipt.amount });
+    }
+
+    if (expectation.exactAmount !== undefined) {
+        const expected = toMinorUnits(expectation.exactAmount)!;
+        if (receipt.amount === null) missing('exactAmount', expected);
+        else assertions.push({ name: 'exactAmount', passed: receipt.amount === expected, expected, actual: receipt.amount });
+    }
+
+    if (expectation.receiverAccountSuffix !== undefined) {
+        const expected = expectation.receiverAccountSuffix;
+        const account = receipt.payee.account;
+        const digits = account ? trailingDigits(account) : '';
+        if (!account || !digits) missing('receiverAccountSuffix', expected);
+        else if (digits.length < expected.length) assertions.push({
+            name: 'receiverAccountSuffix',
+            passed: false,
+            expected,
+            actual: maskAccount(account),
+            message: `Only the last ${digits.length} digits of the account are on the receipt`
+        });
+        else assertions.push({
+            name: 'receiverAccountSuffix',
+            passed: digits.endsWith(expected),
+            expected,
+            actual: maskAccount(account)
+        });
+    }
+
+    if (expectation.receiverName !== undefined) {
+        const expected = expectation.receiverName;
+        const name = receipt.payee.name;
+        if (!name) missing('receiverName', expected);
+        else assertions.push({ name: 'receiverName', passed: namesMatch(expected, name), expected, actual: name });
+    }
+
+    for (const field of DATE_FIELDS) {
+        const expected = expectation[field];
+        if (expected === undefined) continue;
+        if (!receipt.timestamp) {
+            missing(field, expected);
+            continue;
+        }
+
+        const paidAt = Date.parse(receipt.timestamp);
+        const bound = Date.parse(expected);
+        assertions.push({
+            name: field,
+            passed: field === 'notBefore' ? paidAt >= bound : paidAt <= bound,
+            expected,
+            actual: receipt.timestamp
+        });
+    }
+
+    return {
+        matched: assertions.every(assertion => assertion.passed),
+        assertions
+    };
+}
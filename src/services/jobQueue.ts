@@ -0,0 +1,249 @@
+import os from 'os';
+import crypto, { randomUUID } from 'crypto';
+import { Prisma, JobStatus } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { executeVerification, VerificationRequest } from './verificationRunner';
+import { hasFreeSlot } from './providerConcurrency';
+import { deliverWebhook } from './webhooks';
+
+const WORKER_CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || '4', 10);
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '1000', 10);
+const MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10);
+const RETRY_BASE_MS = parseInt(process.env.JOB_RETRY_BASE_MS || '5000', 10);
+// A RUNNING job locked for longer than this is assumed orphaned by a dead worker
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '300000', 10);
+const CREDENTIAL_KEY = crypto.createHash('sha256')
+    .update(process.env.JOB_CREDENTIAL_SECRET || process.env.ADMIN_SECRET || 'change-this-secret-key')
+    .digest();
+
+const workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+const inFlight = new Map<string, Promise<void>>();
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false;
+let stopping = false;
+let lastRecovery = 0;
+
+// AES-256-GCM, stored as `<iv>.<tag>.<ciphertext>` in base64
+function sealCredential(value: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', CREDENTIAL_KEY, iv);
+    const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join('.');
+}
+
+function openCredential(sealed: string | null): string | undefined {
+    if (!sealed) return undefined;
+    try {
+        const [iv, tag, ciphertext] = sealed.split('.').map(part => Buffer.from(part, 'base64'));
+        const decipher = crypto.createDecipheriv('aes-256-gcm', CREDENTIAL_KEY, iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    } catch (error) {
+        // Typically JOB_CREDENTIAL_SECRET changed while the job was queued
+        logger.error('Could not decrypt the credential of a verification job:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Persist a verification request as a job. Workers pick it up in order,
+ * so queued jobs survive restarts. `credential` is the caller's API key,
+ * which some portals (CBE Birr) need when the job runs; only the hash is
+ * kept on the key itself, so it is stored encrypted with the job.
+ */
+export async function enqueueVerificationJob(request: VerificationRequest & { apiKeyId: string }, credential?: string) {
+    const job = await prisma.verificationJob.create({
+        data: {
+            apiKeyId: request.apiKeyId,
+            provider: request.provider,
+            request: request as unknown as Prisma.InputJsonValue,
+            credential: credential ? sealCredential(credential) : null,
+            maxAttempts: MAX_ATTEMPTS
+        }
+    });
+
+    logger.info(`⏳ Queued ${request.provider} verification as job ${job.id}`);
+    setImmediate(poll);
+    return job;
+}
+
+export async function getVerificationJob(id: string, apiKeyId: string) {
+    return prisma.verificationJob.findFirst({ where: { id, apiKeyId } });
+}
+
+async function notifyWebhook(jobId: string, apiKeyId: string, result: { status: number; body: Record<string, unknown> }) {
+    const apiKey = await prisma.apiKey.findUnique({ where: { id: apiKeyId } });
+    if (!apiKey?.webhookUrl || !apiKey.webhookSecret) return;
+
+    deliverWebhook(
+        { apiKeyId, url: apiKey.webhookUrl, secret: apiKey.webhookSecret },
+        {
+            event: result.body.success ? 'verification.completed' : 'verification.failed',
+            jobId,
+            payload: { status: result.status, ...result.body }
+        }
+    );
+}
+
+async function runJob(job: {
+    id: string;
+    apiKeyId: string;
+    request: Prisma.JsonValue;
+    credential: string | null;
+    attempts: number;
+    maxAttempts: number;
+}) {
+    const request = job.request as unknown as VerificationRequest;
+    const result = await executeVerification(request, { apiKey: openCredential(job.credential) });
+
+    // Transient failures are retried; a definitive answer (including "not found") completes the job
+    const retryable = typeof result.body.retryable === 'boolean' ? result.body.retryable : result.status >= 500;
+    if (retryable && job.attempts < job.maxAttempts) {
+        // An open circuit says when the portal is worth trying again
+        const retryAfterMs = Number(result.headers?.['Retry-After'] ?? 0) * 1000;
+        const delay = Math.max(RETRY_BASE_MS * 2 ** (job.attempts - 1), retryAfterMs);
+        await prisma.verificationJob.update({
+            where: { id: job.id },
+            data: {
+                status: JobStatus.QUEUED,
+                error: String(result.body.error ?? 'Verification failed'),
+                runAfter: new Date(Date.now() + delay),
+                lockedBy: null,
+                lockedAt: null
+            }
+        });
+        logger.warn(`🔁 Job ${job.id} failed on attempt ${job.attempts}, retrying in ${delay}ms`);
+        return;
+    }
+
+    const failed = result.status >= 500;
+    await prisma.verificationJob.update({
+        where: { id: job.id },
+        data: {
+            status: failed ? JobStatus.FAILED : JobStatus.COMPLETED,
+            result: result as unknown as Prisma.InputJsonValue,
+            error: failed ? String(result.body.error ?? 'Verification failed') : null,
+            credential: null,
+            completedAt: new Date(),
+            lockedBy: null,
+            lockedAt: null
+        }
+    });
+    logger.info(`✅ Job ${job.id} ${failed ? 'failed' : 'completed'} with status ${result.status}`);
+
+    await notifyWebhook(job.id, job.apiKeyId, result);
+}
+
+// Atomically move a job from QUEUED to RUNNING; false if another worker won
+async function claimJob(id: string): Promise<boolean> {
+    const { count } = await prisma.verificationJob.updateMany({
+        where: { id, status: JobStatus.QUEUED },
+        data: { status: JobStatus.RUNNING, lockedBy: workerId, lockedAt: new Date(), attempts: { increment: 1 } }
+    });
+    return count === 1;
+}
+
+async function poll() {
+    if (polling || stopping) return;
+    polling = true;
+
+    try {
+        if (Date.now() - lastRecovery > LOCK_TIMEOUT_MS) {
+            await recoverStaleJobs();
+        }
+
+        const capacity = WORKER_CONCURRENCY - inFlight.size;
+        if (capacity <= 0) return;
+
+        const candidates = await prisma.verificationJob.findMany({
+            where: { status: JobStatus.QUEUED, runAfter: { lte: new Date() } },
+            orderBy: { createdAt: 'asc' },
+            take: capacity * 4,
+            select: { id: true, provider: true }
+        });
+
+        for (const candidate of candidates) {
+            if (inFlight.size >= WORKER_CONCURRENCY) break;
+
+            // Leave jobs for busy providers queued. This is only a hint: the slot is taken inside
+            // executeVerification after the cache lookup, so a claimed job may still wait for it
+            if (!hasFreeSlot(candidate.provider)) continue;
+
+            if (!(await claimJob(candidate.id))) continue;
+
+            const job = await prisma.verificationJob.findUnique({ where: { id: candidate.id } });
+            if (!job) continue;
+
+            const task = runJob(job)
+                .catch(err => {
+                    logger.error(`Error running job ${job.id}:`, err);
+                })
+                .finally(() => {
+                    inFlight.delete(job.id);
+                    setImmediate(poll);
+                });
+            inFlight.set(job.id, task);
+        }
+    } catch (error) {
+        logger.error('Error polling verification jobs:', error);
+    } finally {
+        polling = false;
+    }
+}
+
+/**
+ * Return RUNNING jobs whose worker died (lock older than the timeout)
+ * to the queue. Runs at startup and periodically, so jobs survive crashes
+ * and restarts.
+ */
+async function recoverStaleJobs() {
+    lastRecovery = Date.now();
+    const { count } = await prisma.verificationJob.updateMany({
+        where: { status: JobStatus.RUNNING, lockedAt: { lt: new Date(Date.now() - LOCK_TIMEOUT_MS) } },
+        data: { status: JobStatus.QUEUED, lockedBy: null, lockedAt: null }
+    });
+    if (count > 0) {
+        logger.warn(`Re-queued ${count} orphaned verification job(s)`);
+    }
+}
+
+export async function startJobWorkers() {
+    if (pollTimer) return;
+    stopping = false;
+
+    await recoverStaleJobs();
+    pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+    logger.info(`Verification job workers started (${workerId}, concurrency ${WORKER_CONCURRENCY})`);
+    setImmediate(poll);
+}
+
+/**
+ * Stop taking new jobs and wait for in-flight ones. Jobs still running
+ * after the timeout are put back in the queue for the next start.
+ */
+export async function stopJobWorkers(timeoutMs = 8000) {
+    stopping = true;
+    if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+    }
+
+    if (inFlight.size > 0) {
+        logger.info(`Draining ${inFlight.size} in-flight verification job(s)...`);
+        await Promise.race([
+            Promise.allSettled(inFlight.values()),
+            new Promise(resolve => setTimeout(resolve, timeoutMs).unref())
+        ]);
+    }
+
+    if (inFlight.size > 0) {
+        const { count } = await prisma.verificationJob.updateMany({
+            where: { status: JobStatus.RUNNING, lockedBy: workerId },
+            data: { status: JobStatus.QUEUED, lockedBy: null, lockedAt: null, attempts: { decrement: 1 } }
+        });
+        logger.warn(`Returned ${count} unfinished job(s) to the queue`);
+    }
+
+    logger.info('Verification job workers stopped');
+}
@@ -0,0 +1,123 @@
+/**
+ * Canonical receipt shape shared by every provider.
+ * Amounts are integer minor units (santim) and timestamps are ISO-8601
+ * in Africa/Addis_Ababa time, which is a fixed UTC+03:00 offset.
+ */
+export type ReceiptStatus = 'completed' | 'pending' | 'failed' | 'unknown';
+
+export interface ReceiptParty {
+    name: string | null;
+    account: string | null;
+}
+
+export interface NormalizedReceipt<TRaw = unknown> {
+    provider: string;
+    reference: string | null;
+    status: ReceiptStatus;
+    payer: ReceiptParty;
+    payee: ReceiptParty;
+    amount: number | null;
+    currency: 'ETB';
+    fees: number | null;
+    vat: number | null;
+    timestamp: string | null;
+    reason: string | null;
+    // Which of the provider's configured sources answered, for providers with several (Telebirr)
+    source?: string;
+    raw: TRaw;
+}
+
+// What each provider maps its own payload to; the registry fills in the rest
+export type ReceiptFields = Omit<NormalizedReceipt, 'provider' | 'currency' | 'raw'>;
+
+const ADDIS_ABABA_OFFSET = '+03:00';
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+/**
+ * Convert "73,000.00", "100.00 Birr" or 73000 to minor units (7300000).
+ * Returns null when no amount can be read.
+ */
+export function toMinorUnits(value: string | number | null | undefined): number | null {
+    if (value === null || value === undefined || value === '') return null;
+
+    const amount = typeof value === 'number'
+        ? value
+        : parseFloat(value.replace(/,/g, '').replace(/[^\d.\-]/g, ''));
+
+    return Number.isFinite(amount) ? Math.round(amount * 100) : null;
+}
+
+/**
+ * Mask an account number so that only its last four digits stay visible.
+ * Accounts the bank already masked (e.g. "1****1234") are re-masked the same way.
+ */
+export function maskAccount(account: string | null | undefined): string | null {
+    if (!account) return null;
+
+    const compact = account.replace(/\s+/g, '');
+    const visible = compact.replace(/[^0-9A-Za-z]/g, '').slice(-4);
+    if (!visible) return null;
+
+    return `****${visible}`;
+}
+
+// Format wall-clock components as Addis Ababa local time
+function formatAddisWallClock(
+    year: number, month: number, day: number,
+    hours = 0, minutes = 0, seconds = 0
+): string | null {
+    if ([year, month, day, hours, minutes, seconds].some(n => !Number.isFinite(n))) return null;
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+    return `${pad(year, 4)}-${pad(month)}-${pad(day)}T${pad(hours)}:${pad(minutes)}:${pad(seconds)}${ADDIS_ABABA_OFFSET}`;
+}
+
+/**
+ * Services parse the bank's printed wall-clock time with `new Date(...)`,
+ * which uses the server's local zone. Reading the local components back
+ * recovers what the bank printed, which is always Addis Ababa time.
+ */
+export function fromWallClockDate(date: Date | null | undefined): string | null {
+    if (!date || isNaN(date.getTime())) return null;
+
+    return formatAddisWallClock(
+        date.getFullYear(), date.getMonth() + 1, date.getDate(),
+        date.getHours(), date.getMinutes(), date.getSeconds()
+    );
+}
+
+/**
+ * Parse receipt timestamps printed as "30-07-2025 17:57:00" (day first)
+ * or "2025-07-30 17:57" (year first), interpreted as Addis Ababa time.
+ */
+export function fromAddisTimestamp(value: string | null | undefined): string | null {
+    if (!value) return null;
+
+    const yearFirst = value.match(/(\d{4})[-\/](\d{1,2})[-\/](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+    if (yearFirst) {
+        const [, y, m, d, h = '0', mi = '0', s = '0'] = yearFirst;
+        return formatAddisWallClock(+y, +m, +d, +h, +mi, +s);
+    }
+
+    const dayFirst = value.match(/(\d{1,2})[-\/](\d{1,2})[-\/](\d{4})(?:[ ,]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?)?/i);
+    if (dayFirst) {
+        const [, d, m, y, h = '0', mi = '0', s = '0', meridiem] = dayFirst;
+        let hours = +h;
+        if (meridiem) {
+            hours = hours % 12 + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+        }
+        return formatAddisWallClock(+y, +m, +d, hours, +mi, +s);
+    }
+
+    return null;
+}
+
+export function toReceiptStatus(value: string | null | undefined): ReceiptStatus {
+    const status = value?.trim().toLowerCase();
+    if (!status) return 'unknown';
+    if (/complete|success|paid/.test(status)) return 'completed';
+    if (/pending|process/.test(status)) return 'pending';
+    if (/fail|reject|cancel|revers/.test(status)) return 'failed';
+    return 'unknown';
+}
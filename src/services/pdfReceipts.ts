@@ -0,0 +1,83 @@
+import pdf from 'pdf-parse';
+import { listProviders, normalizeReceipt, ProviderDefinition } from './providers';
+import { NormalizedReceipt } from './normalizedReceipt';
+import { AppError, ErrorType } from '../utils/errorHandler';
+
+// Fields compared between the uploaded and the authoritative receipt
+const COMPARED_FIELDS = [
+    'reference',
+    'status',
+    'payer.name',
+    'payer.account',
+    'payee.name',
+    'payee.account',
+    'amount',
+    'fees',
+    'vat',
+    'timestamp',
+    'reason'
+] as const;
+
+export type ComparedField = typeof COMPARED_FIELDS[number];
+
+export interface FieldDiscrepancy {
+    field: ComparedField;
+    uploaded: string | number | null;
+    authoritative: string | number | null;
+}
+
+/**
+ * Work out which bank issued an uploaded PDF from the text printed on it.
+ * Throws VALIDATION when the file is not a readable PDF or no provider
+ * recognises it.
+ */
+export async function detectPdfProvider(buffer: Buffer): Promise<ProviderDefinition<any>> {
+    let text: string;
+    try {
+        text = (await pdf(buffer)).text.replace(/\s+/g, ' ');
+    } catch {
+        throw new AppError('The uploaded file is not a readable PDF', ErrorType.VALIDATION, 400);
+    }
+
+    const provider = listProviders().find(definition =>
+        definition.pdf?.markers.every(marker => marker.test(text))
+    );
+    if (!provider) {
+        const supported = listProviders().filter(definition => definition.pdf).map(definition => definition.name);
+        throw new AppError(
+            `Could not tell which bank issued this PDF. Supported: ${supported.join(', ')}`,
+            ErrorType.VALIDATION,
+            422
+        );
+    }
+    return provider;
+}
+
+// Parse the upload with the provider's own receipt parser
+export async function parseUploadedPdf(provider: ProviderDefinition<any>, buffer: Buffer) {
+    const data = await provider.pdf!.parse(buffer);
+    return { receipt: normalizeReceipt(provider, data), lookupInput: provider.pdf!.lookupInput(data) };
+}
+
+const fieldValue = (receipt: NormalizedReceipt, field: ComparedField): string | number | null => {
+    const [head, tail] = field.split('.') as [keyof NormalizedReceipt, string | undefined];
+    const value = tail ? (receipt[head] as unknown as Record<string, string | null>)[tail] : receipt[head];
+    return (value ?? null) as string | number | null;
+};
+
+// Names and references are compared without case or spacing differences
+const comparable = (value: string | number | null) =>
+    typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().toUpperCase() : value;
+
+/**
+ * Compare the uploaded receipt field by field with the copy fetched from
+ * the bank. Any difference means the upload was edited (or the bank's
+ * record changed since it was issued).
+ */
+export function compareReceipts(uploaded: NormalizedReceipt, authoritative: NormalizedReceipt): FieldDiscrepancy[] {
+    return COMPARED_FIELDS.flatMap(field => {
+        const mine = fieldValue(uploaded, field);
+        const theirs = fieldValue(authoritative, field);
+        return comparable(mine) === comparable(theirs) ? [] : [{ field, uploaded: mine, authoritative: theirs }];
+    });
+}
@@ -0,0 +1,34 @@
+import { createSemaphore, Semaphore } from '../utils/semaphore';
+
+// Default number of concurrent upstream fetches per provider
+const DEFAULT_LIMIT = parseInt(process.env.PROVIDER_CONCURRENCY || '4', 10);
+
+// Per-provider overrides, e.g. PROVIDER_CONCURRENCY_LIMITS="cbe:2,telebirr:8"
+const overrides = new Map(
+    (process.env.PROVIDER_CONCURRENCY_LIMITS || '')
+        .split(',')
+        .map(entry => entry.split(':').map(part => part.trim()))
+        .filter(([name, limit]) => name && Number(limit) > 0)
+        .map(([name, limit]) => [name.toLowerCase(), Number(limit)] as [string, number])
+);
+
+const semaphores = new Map<string, Semaphore>();
+
+/**
+ * Concurrency slots for a provider. Both inline requests and background
+ * jobs go through these, so a burst cannot spawn unbounded upstream
+ * fetches (or headless browsers) for one bank.
+ */
+export function getProviderSlots(provider: string): Semaphore {
+    let semaphore = semaphores.get(provider);
+    if (!semaphore) {
+        semaphore = createSemaphore(overrides.get(provider) ?? DEFAULT_LIMIT);
+        semaphores.set(provider, semaphore);
+    }
+    return semaphore;
+}
+
+export function hasFreeSlot(provider: string): boolean {
+    const slots = getProviderSlots(provider);
+    return slots.active < slots.limit;
+}
@@ -0,0 +1,175 @@
+import logger from '../utils/logger';
+import { maskAccount, NormalizedReceipt, ReceiptFields } from './normalizedReceipt';
+
+/**
+ * Describes a single input accepted by a provider.
+ * `aliases` lets the unified endpoint accept the parameter names the
+ * legacy per-bank routes used (e.g. `accountSuffix`, `receiptNumber`).
+ */
+export interface ProviderInputSpec {
+    name: string;
+    description: string;
+    required: boolean;
+    aliases?: string[];
+    pattern?: RegExp;
+    patternHint?: string;
+}
+
+export type ProviderInput = Record<string, string>;
+
+// Per-request information a provider may need besides its inputs
+export interface ProviderContext {
+    apiKey?: string;
+}
+
+export interface ProviderOutcome<TResult = unknown> {
+    success: boolean;
+    data?: TResult;
+    error?: string;
+}
+
+/**
+ * How to read a receipt PDF the customer uploaded instead of fetching it.
+ * `markers` must all appear in the PDF text; `lookupInput` gives the inputs
+ * (usually just the reference) for re-fetching the bank's own copy.
+ */
+export interface ProviderPdfSupport<TResult = unknown> {
+    markers: RegExp[];
+    parse: (buffer: Buffer) => Promise<TResult>;
+    lookupInput: (data: TResult) => ProviderInput;
+}
+
+// Format of a raw upstream response; also the extension of its fixture file
+export type RawResponseFormat = 'pdf' | 'html' | 'json';
+
+export type RawResponseParser<TResult = unknown> = (raw: Buffer) => Promise<TResult>;
+
+export interface ProviderDefinition<TResult = unknown> {
+    name: string;
+    displayName: string;
+    // Path of the provider's dedicated route, e.g. "/verify-cbe"
+    legacyPath: string;
+    inputs: ProviderInputSpec[];
+    verify: (input: ProviderInput, context: ProviderContext) => Promise<ProviderOutcome<TResult>>;
+    // Accounts are returned in full; normalizeReceipt masks them for output
+    normalize: (data: TResult) => ReceiptFields;
+    // How long a completed receipt may be served from the result cache
+    cacheTtlSeconds?: number;
+    pdf?: ProviderPdfSupport<TResult>;
+    // Parsers for each format the upstream answers in, so recorded responses can be replayed offline
+    parsers?: Partial<Record<RawResponseFormat, RawResponseParser<TResult>>>;
+}
+
+export interface InputValidationResult {
+    input: ProviderInput;
+    errors: string[];
+    // Names of required inputs that were absent, and of inputs with a bad format
+    missing: string[];
+    invalid: string[];
+}
+
+const providers = new Map<string, ProviderDefinition<any>>();
+
+/**
+ * Register a provider so it can be reached through `POST /verify`.
+ * Names are case-insensitive and must be unique.
+ */
+export function registerProvider<TResult>(definition: ProviderDefinition<TResult>): void {
+    const name = definition.name.toLowerCase();
+
+    if (providers.has(name)) {
+        throw new Error(`Provider "${name}" is already registered`);
+    }
+
+    providers.set(name, { ...definition, name });
+    logger.debug(`Registered verification provider: ${name}`);
+}
+
+export function getProvider(name: string): ProviderDefinition<any> | undefined {
+    return providers.get(name.toLowerCase());
+}
+
+export function listProviders(): ProviderDefinition<any>[] {
+    return Array.from(providers.values());
+}
+
+export function getProviderByPath(path: string): ProviderDefinition<any> | undefined {
+    return listProviders().find(definition => definition.legacyPath === path);
+}
+
+/**
+ * Map a provider's own result onto the canonical receipt model,
+ * keeping the original payload under `raw`. Accounts are masked.
+ */
+export function normalizeReceipt<TResult>(
+    definition: ProviderDefinition<TResult>,
+    data: TResult
+): NormalizedReceipt<TResult> {
+    const fields = definition.normalize(data);
+    return {
+        provider: definition.name,
+        currency: 'ETB',
+        ...fields,
+        payer: { ...fields.payer, account: maskAccount(fields.payer.account) },
+        payee: { ...fields.payee, account: maskAccount(fields.payee.account) },
+        raw: data
+    };
+}
+
+/**
+ * Resolve the provider's declared inputs from a raw request payload,
+ * accepting aliases and checking required fields and formats.
+ */
+export function validateProviderInput(
+    definition: ProviderDefinition<any>,
+    payload: Record<string, unknown>
+): InputValidationResult {
+    const input: ProviderInput = {};
+    const errors: string[] = [];
+    const missing: string[] = [];
+    const invalid: string[] = [];
+
+    for (const spec of definition.inputs) {
+        const key = [spec.name, ...(spec.aliases ?? [])].find(candidate => payload[candidate] !== undefined);
+        const value = key ? payload[key] : undefined;
+
+        if (value === undefined || value === null || value === '') {
+            if (spec.required) {
+                errors.push(`${spec.name} is required`);
+                missing.push(spec.name);
+            }
+            continue;
+        }
+
+        if (typeof value !== 'string') {
+            errors.push(`${spec.name} must be a string`);
+            continue;
+        }
+
+        const trimmed = value.trim();
+        if (spec.pattern && !spec.pattern.test(trimmed)) {
+            errors.push(`${spec.name} is invalid${spec.patternHint ? `: ${spec.patternHint}` : ''}`);
+            invalid.push(spec.name);
+            continue;
+        }
+
+        input[spec.name] = trimmed;
+    }
+
+    return { input, errors, missing, invalid };
+}
+
+// Public description of a provider, safe to return from the API
+export function describeProvider(definition: ProviderDefinition<any>) {
+    return {
+        name: definition.name,
+        displayName: definition.displayName,
+        inputs: definition.inputs.map(spec => ({
+            name: spec.name,
+            description: spec.description,
+            required: spec.required,
+            ...(spec.aliases?.length && { aliases: spec.aliases }),
+            ...(spec.patternHint && { format: spec.patternHint })
+        }))
+    };
+}
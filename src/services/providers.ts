@@ -0,0 +1,10 @@
+// Importing each service registers it with the provider registry.
+// Adding a new bank only requires a service that calls registerProvider
+// and an import line here.
+import './verifyCBE';
+import './verifyTelebirr';
+import './verifyDashen';
+import './verifyAbyssinia';
+import './verifyCBEBirr';
+
+export * from './providerRegistry';
@@ -0,0 +1,69 @@
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { prisma } from '../utils/prisma';
+import logger from '../utils/logger';
+import { AppError, ErrorType } from '../utils/errorHandler';
+
+export interface ReceiptClaim {
+    apiKeyId: string;
+    provider: string;
+    reference: string;
+    orderId?: string;
+    amount?: number | null;
+}
+
+// References are compared case-insensitively, without surrounding spaces
+export const normalizeClaimReference = (reference: string): string => reference.trim().toUpperCase();
+
+/**
+ * Atomically claim a receipt for the given API key. The unique
+ * (apiKeyId, provider, reference) index decides races; the loser gets an
+ * ALREADY_USED error describing the original claim.
+ */
+export async function claimReceipt(claim: ReceiptClaim) {
+    const reference = normalizeClaimReference(claim.reference);
+
+    try {
+        return await prisma.verifiedReceipt.create({
+            data: {
+                apiKeyId: claim.apiKeyId,
+                provider: claim.provider,
+                reference,
+                orderId: claim.orderId ?? null,
+                amount: claim.amount ?? null
+            }
+        });
+    } catch (error) {
+        if (!(error instanceof PrismaClientKnownRequestError) || error.code !== 'P2002') {
+            logger.error('Error claiming receipt:', error);
+            throw error;
+        }
+
+        const existing = await prisma.verifiedReceipt.findUnique({
+            where: {
+                apiKeyId_provider_reference: {
+                    apiKeyId: claim.apiKeyId,
+                    provider: claim.provider,
+                    reference
+                }
+            }
+        });
+
+        logger.warn(`Receipt ${claim.provider}/${reference} already claimed`, {
+            claimedAt: existing?.claimedAt,
+            orderId: existing?.orderId
+        });
+
+        throw new AppError(
+            `Receipt ${reference} was already used${existing?.orderId ? ` for order ${existing.orderId}` : ''}` +
+            `${existing ? ` at ${existing.claimedAt.toISOString()}` : ''}.`,
+            ErrorType.ALREADY_USED,
+            409,
+            {
+                reference,
+                provider: claim.provider,
+                claimedAt: existing?.claimedAt ?? null,
+                orderId: existing?.orderId ?? null
+            }
+        );
+    }
+}
@@ -0,0 +1,123 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeReceiptText } from './receiptImageAnalyzer';
+import logger from '../utils/logger';
+
+logger.silent = true;
+
+// OCR output as Tesseract returns it for screenshots of each provider's receipt
+const SAMPLES = {
+    cbe: [
+        'Commercial Bank of Ethiopia',
+        'Payer: ABEBE KEBEDE',
+        'Receiver: TSEHAY ALEMU',
+        'Payment Date & Time 5/10/2025, 10:23:45 AM',
+        'Reference No. (VAT Invoice No) FT25130 01V2G',
+        'Transferred Amount 73,000.00 ETB'
+    ],
+    telebirr: [
+        'telebirr',
+        'Ethio telecom',
+        'Payer Name: ABEBE KEBEDE',
+        'Credited Party name: TSEHAY ALEMU',
+        'Invoice No. CHQ0FJ403O',
+        'Payment date 10-05-2025 14:02:11',
+        'Settled Amount 1,500.00 Birr'
+    ],
+    dashen: [
+        'Dashen Bank',
+        'Transaction Receipt',
+        'Sender Name ABEBE KEBEDE',
+        'Receiver Name TSEHAY ALEMU',
+        'Transaction Reference 036TBAO251240001',
+        'Transaction Date 2025-05-04 09:15:00',
+        'Transaction Amount ETB 2,500.00'
+    ],
+    abyssinia: [
+        'Bank of Abyssinia',
+        'Sender Name: ABEBE KEBEDE',
+        'Receiver Name: TSEHAY ALEMU',
+        'Transaction Reference: FT25124ABC12',
+        'Transferred amount: 450.00 ETB',
+        'Transaction Date: 04/05/2025 11:20'
+    ],
+    cbebirr: [
+        'CBE Birr',
+        'Receipt Number: CGU9REIHHB',
+        'Payer Name: ABEBE KEBEDE',
+        'Receiver Name: TSEHAY ALEMU',
+        'Phone: 0911 223 344',
+        'Paid amount 300.00 Birr',
+        'Transaction Date 2025-05-10 08:00:00'
+    ]
+};
+
+const read = (lines: string[]) => analyzeReceiptText(lines.join('\n'));
+
+describe('Tesseract receipt text analysis', () => {
+    test('reads a CBE receipt and joins a reference split by OCR', () => {
+        assert.deepEqual(read(SAMPLES.cbe), {
+            type: 'cbe',
+            reference: 'FT2513001V2G',
+            inputs: {},
+            displayed: { amount: '73,000.00', payer: 'ABEBE KEBEDE', receiver: 'TSEHAY ALEMU', date: '5/10/2025, 10:23:45 AM' }
+        });
+    });
+
+    test('reads a Telebirr receipt', () => {
+        assert.deepEqual(read(SAMPLES.telebirr), {
+            type: 'telebirr',
+            reference: 'CHQ0FJ403O',
+            inputs: {},
+            displayed: { amount: '1,500.00', payer: 'ABEBE KEBEDE', receiver: 'TSEHAY ALEMU', date: '10-05-2025' }
+        });
+    });
+
+    test('reads a Dashen receipt from its labelled reference', () => {
+        assert.deepEqual(read(SAMPLES.dashen), {
+            type: 'dashen',
+            reference: '036TBAO251240001',
+            inputs: {},
+            displayed: { amount: '2,500.00', payer: 'ABEBE KEBEDE', receiver: 'TSEHAY ALEMU', date: '2025-05-04 09:15:00' }
+        });
+    });
+
+    test('reads a Bank of Abyssinia receipt', () => {
+        assert.deepEqual(read(SAMPLES.abyssinia), {
+            type: 'abyssinia',
+            reference: 'FT25124ABC12',
+            inputs: {},
+            displayed: { amount: '450.00', payer: 'ABEBE KEBEDE', receiver: 'TSEHAY ALEMU', date: '04/05/2025' }
+        });
+    });
+
+    test('reads a CBE Birr receipt with the payer phone as an input', () => {
+        assert.deepEqual(read(SAMPLES.cbebirr), {
+            type: 'cbebirr',
+            reference: 'CGU9REIHHB',
+            inputs: { phone: '251911223344' },
+            displayed: { amount: '300.00', payer: 'ABEBE KEBEDE', receiver: 'TSEHAY ALEMU', date: '2025-05-10 08:00:00' }
+        });
+    });
+
+    test('keeps a CBE transfer to a Telebirr wallet as CBE', () => {
+        const result = read([...SAMPLES.cbe.filter(line => !line.startsWith('Commercial')), 'Receiver bank: telebirr']);
+        assert.equal(result.type, 'cbe');
+        assert.equal(result.reference, 'FT2513001V2G');
+    });
+
+    test('recognises no provider in unrelated text', () => {
+        assert.deepEqual(read(['Thank you for shopping with us', 'Total 120.00', 'See you again']), {
+            type: null,
+            reference: null,
+            inputs: {},
+            displayed: { amount: null, payer: null, receiver: null, date: null }
+        });
+    });
+
+    test('gives no provider when the issuer is named but no reference can be read', () => {
+        const result = read(SAMPLES.telebirr.filter(line => !line.startsWith('Invoice')));
+        assert.equal(result.type, null);
+        assert.equal(result.reference, null);
+    });
+});
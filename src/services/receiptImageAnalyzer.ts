@@ -0,0 +1,298 @@
+import { Mistral } from '@mistralai/mistralai';
+import { createWorker, Worker } from 'tesseract.js';
+import { DisplayedFields } from './tamperDetection';
+import { ProviderInput } from './providerRegistry';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import logger from '../utils/logger';
+
+// Analyzer used when the request does not pick one: mistral or tesseract
+const DEFAULT_ANALYZER = process.env.IMAGE_ANALYZER || 'mistral';
+// Directory (or URL) holding the Tesseract language data; unset downloads it once and caches it
+const TESSERACT_LANG_PATH = process.env.TESSERACT_LANG_PATH || undefined;
+
+// Registered provider names the analyzers can recognise
+export const RECEIPT_IMAGE_TYPES = ['cbe', 'telebirr', 'dashen', 'abyssinia', 'cbebirr'] as const;
+
+export type ReceiptImageType = typeof RECEIPT_IMAGE_TYPES[number];
+
+export interface ReceiptImageAnalysis {
+    type: ReceiptImageType | null;
+    reference: string | null;
+    // Other provider inputs printed on the receipt, e.g. the CBE Birr payer phone
+    inputs: ProviderInput;
+    displayed: DisplayedFields;
+}
+
+/**
+ * Reads a receipt image: which bank issued it, its reference and the
+ * values printed on it. Implementations throw when they cannot run at all;
+ * an image they cannot make sense of yields `type: null`.
+ */
+export interface ReceiptImageAnalyzer {
+    name: string;
+    analyze(image: Buffer, mimeType: string): Promise<ReceiptImageAnalysis>;
+}
+
+const PROMPT = `
+You are a payment receipt analyzer. Based on the uploaded image, determine:
+- Which service issued the receipt: the Commercial Bank of Ethiopia (cbe), Telebirr (telebirr), Dashen Bank (dashen), Bank of Abyssinia (abyssinia) or CBE Birr (cbebirr).
+- The receipt's reference:
+  - cbe: the transaction ID, starting with 'FT' followed by 10 letters or digits.
+  - telebirr: the transaction number, 10 characters starting with 'C'.
+  - dashen: the transaction reference.
+  - abyssinia: the transaction reference, starting with 'FT' followed by 10 letters or digits.
+  - cbebirr: the receipt number, 10 letters or digits.
+- For CBE Birr, the payer's phone number if it is shown.
+- Read the amount, payer name, receiver name and date/time exactly as they are printed on the receipt.
+
+Rules:
+- CBE receipts usually include a purple header with the title "Commercial Bank of Ethiopia" and a structured table.
+- Telebirr receipts are typically green with a large minus sign before the amount.
+- CBE receipts may mention Telebirr (as the receiver) but are still CBE receipts.
+- CBE Birr is CBE's mobile wallet; its receipts say "CBE Birr" and are not CBE bank receipts.
+- Bank of Abyssinia receipts say "Bank of Abyssinia" or "BoA"; Dashen receipts say "Dashen Bank".
+
+Return this JSON format exactly:
+{
+  "type": "cbe" | "telebirr" | "dashen" | "abyssinia" | "cbebirr",
+  "reference": "the reference described above",
+  "phone"?: "payer phone number, if CBE Birr",
+  "amount"?: "amount as printed, e.g. 1,500.00",
+  "payer"?: "payer name as printed",
+  "receiver"?: "receiver name as printed",
+  "date"?: "date and time as printed, written as YYYY-MM-DD HH:mm"
+}
+`.trim();
+
+let mistral: Mistral | null = null;
+
+export const mistralAnalyzer: ReceiptImageAnalyzer = {
+    name: 'mistral',
+
+    async analyze(image, mimeType) {
+        if (!process.env.MISTRAL_API_KEY) {
+            throw new Error('MISTRAL_API_KEY is not set');
+        }
+        mistral ??= new Mistral({ apiKey: process.env.MISTRAL_API_KEY });
+
+        logger.info('Sending image to Mistral Vision...');
+        const chatResponse = await mistral.chat.complete({
+            model: 'pixtral-12b',
+            messages: [
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: PROMPT },
+                        { type: 'image_url', imageUrl: `data:${mimeType};base64,${image.toString('base64')}` }
+                    ]
+                }
+            ],
+            responseFormat: { type: 'json_object' }
+        });
+
+        const messageContent = chatResponse.choices?.[0]?.message?.content;
+        if (!messageContent || typeof messageContent !== 'string') {
+            throw new Error('Invalid Mistral response');
+        }
+
+        const result = JSON.parse(messageContent);
+        logger.info('OCR Result', result);
+
+        const type = RECEIPT_IMAGE_TYPES.find(name => name === result.type) ?? null;
+        const phone = typeof result.phone === 'string' ? toPhoneInput(result.phone) : null;
+        const inputs: ProviderInput = type === 'cbebirr' && phone ? { phone } : {};
+        return {
+            type,
+            reference: typeof result.reference === 'string' ? result.reference.replace(/\s+/g, '').toUpperCase() : null,
+            inputs,
+            displayed: {
+                amount: result.amount ?? null,
+                payer: result.payer ?? null,
+                receiver: result.receiver ?? null,
+                date: result.date ?? null
+            }
+        };
+    }
+};
+
+/**
+ * One worker serves every request; Tesseract queues recognitions
+ * internally. `failed` rejects on the worker's first error, which retires
+ * it: in-flight recognitions fail and the next call starts a new worker.
+ */
+interface OcrWorker {
+    ready: Promise<Worker>;
+    failed: Promise<never>;
+}
+
+let current: OcrWorker | null = null;
+
+function getWorker(): OcrWorker {
+    if (current) return current;
+
+    let fail: (err: Error) => void = () => undefined;
+    const failed = new Promise<never>((_, reject) => {
+        fail = reject;
+    });
+    const created = createWorker('eng', undefined, {
+        ...(TESSERACT_LANG_PATH && { langPath: TESSERACT_LANG_PATH }),
+        // tesseract.js neither rejects createWorker when the language data cannot be
+        // loaded nor lets worker errors reach a promise; they only arrive here
+        errorHandler: (err: unknown) => {
+            logger.error('Tesseract worker error', { error: String(err) });
+            fail(new Error(`Tesseract failed: ${String(err)}`));
+        }
+    });
+    created.catch(err => fail(err instanceof Error ? err : new Error(String(err))));
+
+    const entry: OcrWorker = { ready: Promise.race([created, failed]), failed };
+    current = entry;
+    failed.catch(() => {
+        if (current === entry) current = null;
+        created.then(w => w.terminate()).catch(() => undefined);
+    });
+    return entry;
+}
+
+export async function closeImageAnalyzers(): Promise<void> {
+    const pending = current;
+    current = null;
+    if (pending) {
+        await pending.ready.then(w => w.terminate()).catch(() => undefined);
+    }
+}
+
+// Value printed after one of the labels on the same line, e.g. "Payer Name: ABEBE KEBEDE"
+function labelled(lines: string[], labels: RegExp): string | null {
+    for (const line of lines) {
+        const match = line.match(new RegExp(`^\\s*(?:${labels.source})\\s*[:\\-]?\\s*(.+)$`, 'i'));
+        if (match && match[1].trim()) return match[1].trim();
+    }
+    return null;
+}
+
+// "0912 345 678" or "+251912345678" -> "251912345678"
+function toPhoneInput(value: string): string | null {
+    const digits = value.replace(/\D/g, '');
+    if (/^251\d{9}$/.test(digits)) return digits;
+    if (/^0\d{9}$/.test(digits)) return `251${digits.slice(1)}`;
+    return null;
+}
+
+// Wording that identifies the issuer, checked in this order: CBE Birr and Abyssinia receipts can mention CBE or Telebirr too
+const ISSUER_MARKERS: [ReceiptImageType, RegExp][] = [
+    ['cbebirr', /cbe\s*birr/i],
+    ['abyssinia', /bank\s*of\s*abyssinia|\bBOA\b/i],
+    ['dashen', /dashen/i],
+    ['cbe', /commercial\s*bank\s*of\s*ethiopia|\bCBE\b/i],
+    ['telebirr', /tele\s*birr|ethio\s*telecom/i]
+];
+
+/**
+ * Pick the issuer, reference and displayed values out of OCR text. The
+ * issuer comes from the first marker found; a page with an FT reference and
+ * no marker is taken as CBE. CBE receipts can name Telebirr as the receiver,
+ * so an FT reference on a page that mentions CBE wins over Telebirr wording.
+ */
+export function analyzeReceiptText(text: string): ReceiptImageAnalysis {
+    const lines = text.split(/\r?\n/).filter(line => line.trim());
+    const upper = text.toUpperCase();
+
+    // OCR tends to split long FT references with a stray space
+    const ftReference = upper.match(/\bF ?T(?: ?[A-Z0-9]){10}\b/)?.[0].replace(/ /g, '') ?? null;
+    // Telebirr and CBE Birr references are 10 characters and always contain a digit, which keeps ordinary words out
+    const tenCharReference = (first: string) =>
+        upper.match(new RegExp(`\\b${first}(?=[A-Z]*\\d)[A-Z0-9]{9}\\b`))?.[0] ?? null;
+
+    const issuers = ISSUER_MARKERS.filter(([, marker]) => marker.test(text)).map(([name]) => name);
+    let type: ReceiptImageType | null = issuers[0] ?? (ftReference ? 'cbe' : null);
+    if (type === 'telebirr' && ftReference && !tenCharReference('C')) {
+        type = 'cbe';
+    }
+
+    let reference: string | null = null;
+    switch (type) {
+        case 'cbe':
+        case 'abyssinia':
+            reference = ftReference;
+            break;
+        case 'telebirr':
+            reference = tenCharReference('C');
+            break;
+        case 'cbebirr':
+            reference = labelled(lines, /receipt\s*(?:number|no\.?)/)?.replace(/\s+/g, '').toUpperCase() ?? tenCharReference('[A-Z0-9]');
+            break;
+        case 'dashen':
+            reference = labelled(lines, /transaction\s*reference|reference(?:\s*no\.?)?/)?.split(/\s+/)[0].toUpperCase() ?? null;
+            break;
+    }
+
+    const phoneText = text.match(/(?:\+?251|\b0)9[\d ]{8,10}/)?.[0];
+    const phone = type === 'cbebirr' && phoneText ? toPhoneInput(phoneText) : null;
+
+    const amount = text.match(/(?:total\s*paid\s*amount|transferred\s*amount|total\s*amount|amount)[^\d\n]*([\d,]+\.\d{2})/i)?.[1] ?? null;
+    const date = text.match(
+        /\d{4}[-\/]\d{1,2}[-\/]\d{1,2}(?:[ T]\d{1,2}:\d{2}(?::\d{2})?)?|\d{1,2}[-\/]\d{1,2}[-\/]\d{4}(?:[ ,]+\d{1,2}:\d{2}(?::\d{2})?\s*[AP]M)?/i
+    )?.[0] ?? null;
+
+    return {
+        type: reference ? type : null,
+        reference,
+        inputs: phone ? { phone } : {},
+        displayed: {
+            amount,
+            payer: labelled(lines, /payer(?:\s*name)?|sender(?:\s*name)?/),
+            receiver: labelled(lines, /credited\s*party\s*name|receiver(?:\s*name)?|beneficiary(?:\s*name)?/),
+            date
+        }
+    };
+}
+
+export const tesseractAnalyzer: ReceiptImageAnalyzer = {
+    name: 'tesseract',
+
+    async analyze(image) {
+        logger.info('Running local OCR with Tesseract...');
+        const ocr = getWorker();
+        const { data } = await Promise.race([(await ocr.ready).recognize(image), ocr.failed]);
+        const result = analyzeReceiptText(data.text);
+        logger.info('OCR Result', result);
+        return result;
+    }
+};
+
+const ANALYZERS: Record<string, ReceiptImageAnalyzer> = {
+    [mistralAnalyzer.name]: mistralAnalyzer,
+    [tesseractAnalyzer.name]: tesseractAnalyzer
+};
+
+/**
+ * Analyze a receipt image with the requested analyzer (or `IMAGE_ANALYZER`).
+ * When Mistral cannot be used (no API key, request failed, unreadable
+ * answer) the image is read locally with Tesseract instead.
+ */
+export async function analyzeReceiptImage(
+    image: Buffer,
+    mimeType: string,
+    requested?: string
+): Promise<ReceiptImageAnalysis & { analyzer: string; fallback: boolean }> {
+    const name = requested || DEFAULT_ANALYZER;
+    const analyzer = ANALYZERS[name];
+    if (!analyzer) {
+        throw new AppError(
+            `Unknown image analyzer "${name}". Use one of: ${Object.keys(ANALYZERS).join(', ')}`,
+            ErrorType.VALIDATION,
+            400
+        );
+    }
+
+    try {
+        return { ...(await analyzer.analyze(image, mimeType)), analyzer: analyzer.name, fallback: false };
+    } catch (err) {
+        if (analyzer === tesseractAnalyzer) throw err;
+        logger.warn(`⚠️ ${analyzer.name} image analysis failed, falling back to Tesseract`, {
+            error: err instanceof Error ? err.message : String(err)
+        });
+        return { ...(await tesseractAnalyzer.analyze(image, mimeType)), analyzer: tesseractAnalyzer.name, fallback: true };
+    }
+}
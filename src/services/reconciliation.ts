@@ -0,0 +1,285 @@
+import ExcelJS from 'exceljs';
+import { runBatch, BatchItemResult, BatchOptions } from './batchVerification';
+import { normalizeReference } from './referenceAnalysis';
+import { NormalizedReceipt } from './normalizedReceipt';
+import { AssertionResult, ExpectationReport } from './expectations';
+import { CsvRow, parseCsv, toCsv } from '../utils/csv';
+import { AppError, ErrorType } from '../utils/errorHandler';
+import logger from '../utils/logger';
+
+// Most data rows accepted in one reconciliation file
+export const RECONCILE_MAX_ROWS = parseInt(process.env.RECONCILE_MAX_ROWS || '1000', 10);
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export type ReconciliationStatus =
+    | 'MATCHED'
+    | 'AMOUNT_MISMATCH'
+    | 'WRONG_RECEIVER'
+    | 'NOT_COMPLETED'
+    | 'NOT_FOUND'
+    | 'DUPLICATE'
+    | 'ERROR';
+
+type Column = 'orderId' | 'provider' | 'reference' | 'suffix' | 'phone' | 'amount' | 'receiverName' | 'receiverAccountSuffix';
+
+// Accepted header spellings, compared without case, spaces or punctuation
+const COLUMN_ALIASES: Record<Column, string[]> = {
+    orderId: ['orderid', 'order', 'ordernumber', 'invoice'],
+    provider: ['provider', 'bank', 'channel'],
+    reference: ['reference', 'ref', 'transactionreference', 'receiptnumber', 'transactionid'],
+    suffix: ['suffix', 'accountsuffix'],
+    phone: ['phone', 'phonenumber'],
+    amount: ['amount', 'expectedamount'],
+    receiverName: ['receiver', 'receivername'],
+    receiverAccountSuffix: ['receiveraccount', 'receiveraccountsuffix']
+};
+
+const ANNOTATION_HEADERS = ['Reconciliation Status', 'Verified Amount', 'Verified Payer', 'Verified Receiver', 'Verified Date', 'Note'];
+
+export interface ReconciledRow {
+    row: number;
+    orderId: string | null;
+    provider: string | null;
+    reference: string | null;
+    status: ReconciliationStatus;
+    note: string | null;
+    receipt: NormalizedReceipt | null;
+}
+
+export type ReconciliationSummary = { total: number } & Record<ReconciliationStatus, number>;
+
+export interface Reconciliation {
+    header: string[];
+    cells: string[][];
+    rows: ReconciledRow[];
+    summary: ReconciliationSummary;
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Non-blank rows with their row numbers in the uploaded file, so notes and results point at the right line
+export async function readSpreadsheet(buffer: Buffer, format: SpreadsheetFormat): Promise<CsvRow[]> {
+    if (format === 'csv') {
+        return parseCsv(buffer.toString('utf8'));
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    try {
+        // exceljs types its input as an ArrayBuffer; JSZip reads Node buffers as well
+        await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+    } catch {
+        throw new AppError('Could not read the XLSX file', ErrorType.VALIDATION, 400);
+    }
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const rows: CsvRow[] = [];
+    for (let r = 1; r <= sheet.rowCount; r++) {
+        const cells: string[] = [];
+        for (let c = 1; c <= sheet.columnCount; c++) {
+            cells.push(sheet.getCell(r, c).text ?? '');
+        }
+        if (cells.some(cell => cell.trim() !== '')) rows.push({ row: r, cells });
+    }
+    return rows;
+}
+
+function mapColumns(header: string[]): Partial<Record<Column, number>> {
+    const normalized = header.map(normalizeHeader);
+    const columns: Partial<Record<Column, number>> = {};
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [Column, string[]][]) {
+        const index = normalized.findIndex(name => aliases.includes(name));
+        if (index !== -1) columns[column] = index;
+    }
+    return columns;
+}
+
+// "1,500.00 ETB" -> "1500.00"; left as is when it is not a number so validation reports it
+const cleanAmount = (value: string) => value.replace(/,/g, '').replace(/\s*(ETB|birr|br)\.?$/i, '').trim();
+
+const formatAmount = (minor: number | null | undefined) => (minor === null || minor === undefined ? '' : (minor / 100).toFixed(2));
+
+function mismatchNote(assertion: AssertionResult): string {
+    if (assertion.message) return assertion.message;
+    // Amount assertions report minor units
+    const show = (value: string | number | null) =>
+        assertion.name === 'exactAmount' && typeof value === 'number' ? `${formatAmount(value)} ETB` : String(value);
+    return `Expected ${show(assertion.expected)}, receipt shows ${show(assertion.actual)}`;
+}
+
+function classify(result: BatchItemResult): Pick<ReconciledRow, 'status' | 'note' | 'receipt'> {
+    const body = result.body;
+
+    // A pending, failed or reversed payment is not a match whatever else it shows; with consume it is a 422
+    if ((result.status === 200 || body.code === 'RECEIPT_NOT_COMPLETED') && body.data) {
+        const receipt = body.data as NormalizedReceipt;
+        if (receipt.status !== 'completed') {
+            return { status: 'NOT_COMPLETED', note: `Receipt status is ${receipt.status}`, receipt };
+        }
+    }
+
+    if (result.status === 200) {
+        const receipt = body.data as NormalizedReceipt;
+        const failed = ((body.expectation as ExpectationReport | undefined)?.assertions ?? []).filter(a => !a.passed);
+
+        const amount = failed.find(a => a.name === 'exactAmount');
+        if (amount) {
+            return { status: 'AMOUNT_MISMATCH', note: mismatchNote(amount), receipt };
+        }
+        const receiver = failed.find(a => a.name === 'receiverName' || a.name === 'receiverAccountSuffix');
+        if (receiver) {
+            return { status: 'WRONG_RECEIVER', note: mismatchNote(receiver), receipt };
+        }
+        return { status: 'MATCHED', note: null, receipt };
+    }
+
+    if (body.code === 'ALREADY_USED') {
+        return { status: 'DUPLICATE', note: String(body.error), receipt: null };
+    }
+    if (result.status === 404) {
+        return { status: 'NOT_FOUND', note: String(body.error ?? 'Receipt not found'), receipt: null };
+    }
+
+    const details = Array.isArray(body.details) ? `: ${body.details.join(', ')}` : '';
+    const code = body.code ? `${body.code} - ` : '';
+    return { status: 'ERROR', note: `${code}${body.error ?? 'Verification failed'}${details}`, receipt: null };
+}
+
+/**
+ * Check the header and size of an uploaded sheet. Returns the number of data
+ * rows, which is what the upload counts as against rate limits and quotas.
+ */
+export function checkSpreadsheet(table: CsvRow[]): number {
+    const [header, ...data] = table;
+    if (!header) {
+        throw new AppError('The file is empty', ErrorType.VALIDATION, 400);
+    }
+
+    const columns = mapColumns(header.cells);
+    const missing = (['provider', 'reference'] as Column[]).filter(column => columns[column] === undefined);
+    if (missing.length > 0) {
+        throw new AppError(`Missing required column(s): ${missing.join(', ')}`, ErrorType.VALIDATION, 400);
+    }
+    if (data.length === 0) {
+        throw new AppError('The file has no data rows', ErrorType.VALIDATION, 400);
+    }
+    if (data.length > RECONCILE_MAX_ROWS) {
+        throw new AppError(`A file may have at most ${RECONCILE_MAX_ROWS} rows, got ${data.length}`, ErrorType.VALIDATION, 400);
+    }
+    return data.length;
+}
+
+/**
+ * Verify every row of an expected-payments sheet and classify it. Rows go
+ * through the batch runner, so limits, scopes and the result cache apply
+ * as for `POST /verify/batch`. A reference listed twice is verified once;
+ * the later rows are marked DUPLICATE, as are receipts already claimed when
+ * `consume` is set.
+ */
+export async function reconcile(
+    table: CsvRow[],
+    options: Omit<BatchOptions, 'onResult'> & { consume?: boolean } = {}
+): Promise<Reconciliation> {
+    checkSpreadsheet(table);
+    const [{ cells: header }, ...data] = table;
+    const columns = mapColumns(header);
+    const cells = data.map(row => row.cells);
+
+    const value = (row: string[], column: Column): string => {
+        const index = columns[column];
+        return index === undefined ? '' : (row[index] ?? '').trim();
+    };
+
+    const rows: ReconciledRow[] = [];
+    const items: Record<string, unknown>[] = [];
+    const itemRows: number[] = [];
+    const firstSeen = new Map<string, number>();
+
+    data.forEach(({ row: rowNumber, cells: row }, i) => {
+        const provider = value(row, 'provider').toLowerCase() || null;
+        const reference = value(row, 'reference') || null;
+        const orderId = value(row, 'orderId') || null;
+        rows.push({ row: rowNumber, orderId, provider, reference, status: 'ERROR', note: null, receipt: null });
+
+        const key = `${provider}|${normalizeReference(reference ?? '')}`;
+        const earlier = reference ? firstSeen.get(key) : undefined;
+        if (earlier !== undefined) {
+            rows[i].status = 'DUPLICATE';
+            rows[i].note = `Same reference as row ${earlier}`;
+            return;
+        }
+        if (reference) firstSeen.set(key, rowNumber);
+
+        const expect: Record<string, string> = {};
+        if (value(row, 'amount')) expect.exactAmount = cleanAmount(value(row, 'amount'));
+        if (value(row, 'receiverName')) expect.receiverName = value(row, 'receiverName');
+        if (value(row, 'receiverAccountSuffix')) expect.receiverAccountSuffix = value(row, 'receiverAccountSuffix');
+
+        const item: Record<string, unknown> = { provider, clientId: rowNumber, reference };
+        if (value(row, 'suffix')) item.suffix = value(row, 'suffix');
+        if (value(row, 'phone')) item.phone = value(row, 'phone');
+        if (Object.keys(expect).length > 0) item.expect = expect;
+        if (options.consume) {
+            item.consume = true;
+            if (orderId) item.orderId = orderId;
+        }
+
+        items.push(item);
+        itemRows.push(i);
+    });
+
+    logger.info(`🧮 Reconciling ${rows.length} rows (${items.length} to verify)`);
+    const { results } = items.length > 0 ? await runBatch(items, options) : { results: [] };
+    results.forEach((result, i) => Object.assign(rows[itemRows[i]], classify(result)));
+
+    const summary = {
+        total: rows.length,
+        MATCHED: 0,
+        AMOUNT_MISMATCH: 0,
+        WRONG_RECEIVER: 0,
+        NOT_COMPLETED: 0,
+        NOT_FOUND: 0,
+        DUPLICATE: 0,
+        ERROR: 0
+    };
+    rows.forEach(row => summary[row.status]++);
+
+    return { header, cells, rows, summary };
+}
+
+// The uploaded rows with the reconciliation columns appended
+function annotatedRows({ header, cells, rows }: Reconciliation): string[][] {
+    const width = header.length;
+    const pad = (row: string[]) => [...row, ...Array(Math.max(0, width - row.length)).fill('')].slice(0, width);
+
+    return [
+        [...header, ...ANNOTATION_HEADERS],
+        ...rows.map((row, i) => [
+            ...pad(cells[i]),
+            row.status,
+            formatAmount(row.receipt?.amount),
+            row.receipt?.payer.name ?? '',
+            row.receipt?.payee.name ?? '',
+            row.receipt?.timestamp ?? '',
+            row.note ?? ''
+        ])
+    ];
+}
+
+export async function writeReconciliation(result: Reconciliation, format: SpreadsheetFormat): Promise<Buffer> {
+    if (format === 'csv') {
+        return Buffer.from(toCsv(annotatedRows(result)), 'utf8');
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Reconciliation');
+    sheet.addRows(annotatedRows(result));
+    sheet.getRow(1).font = { bold: true };
+
+    const summary = workbook.addWorksheet('Summary');
+    summary.addRows([['Status', 'Rows'], ...Object.entries(result.summary).map(([status, count]) => [status, count])]);
+    summary.getRow(1).font = { bold: true };
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,71 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import './providers';
+import { analyzeReference, assertInputFormat } from './referenceAnalysis';
+import { ErrorType, ProviderError } from '../utils/errorHandler';
+import logger from '../utils/logger';
+
+logger.silent = true;
+
+const detect = (reference: string, payload: Record<string, unknown> = {}) =>
+    analyzeReference(reference, payload).candidates.map(({ provider, confidence, ready }) => ({ provider, confidence, ready }));
+
+describe('reference detection', () => {
+    test('offers CBE and Abyssinia for an FT reference until a suffix decides', () => {
+        assert.deepEqual(detect('FT2513001V2G'), [
+            { provider: 'cbe', confidence: 'medium', ready: false },
+            { provider: 'abyssinia', confidence: 'medium', ready: false }
+        ]);
+        assert.deepEqual(detect('FT2513001V2G', { suffix: '39003377' }), [
+            { provider: 'cbe', confidence: 'high', ready: true }
+        ]);
+        assert.deepEqual(detect('FT25124ABC12', { suffix: '12345' }), [
+            { provider: 'abyssinia', confidence: 'high', ready: true }
+        ]);
+    });
+
+    test('ranks CBE Birr first when a phone number comes with the receipt number', () => {
+        assert.deepEqual(detect('CHQ0FJ403O'), [
+            { provider: 'telebirr', confidence: 'medium', ready: true },
+            { provider: 'cbebirr', confidence: 'medium', ready: false }
+        ]);
+        assert.deepEqual(detect('CGU9REIHHB', { phone: '251911223344' }), [
+            { provider: 'cbebirr', confidence: 'high', ready: true },
+            { provider: 'telebirr', confidence: 'medium', ready: true }
+        ]);
+        assert.deepEqual(detect('8GU9REIHHB'), [
+            { provider: 'cbebirr', confidence: 'high', ready: false }
+        ]);
+    });
+
+    test('recognises a Dashen reference with high confidence', () => {
+        assert.deepEqual(detect('036TBAO251240001'), [
+            { provider: 'dashen', confidence: 'high', ready: true }
+        ]);
+        const pasted = analyzeReference(' 036 tbao 251240001');
+        assert.equal(pasted.reference, '036TBAO251240001');
+        assert.equal(pasted.candidates[0].provider, 'dashen');
+    });
+
+    test('finds no provider for a reference that fits no format', () => {
+        assert.deepEqual(detect('036TBAO2512'), []);
+        assert.deepEqual(detect('HELLO'), []);
+    });
+});
+
+describe('input format check', () => {
+    test('accepts well-formed inputs', () => {
+        assert.doesNotThrow(() => assertInputFormat('dashen', { reference: '036TBAO251240001' }));
+        assert.doesNotThrow(() => assertInputFormat('cbe', { reference: 'FT2513001V2G', suffix: '39003377' }));
+    });
+
+    test('rejects a malformed Dashen reference before any upstream call', () => {
+        assert.throws(
+            () => assertInputFormat('dashen', { reference: 'FT2513001V2G' }),
+            (error: unknown) =>
+                error instanceof ProviderError &&
+                error.type === ErrorType.INVALID_REFERENCE_FORMAT &&
+                /3 digits, 4 letters and 9 digits/.test(error.message)
+        );
+    });
+});
@@ -0,0 +1,134 @@
+import { getProvider, listProviders, validateProviderInput, ProviderDefinition } from './providerRegistry';
+import { ErrorType, ProviderError } from '../utils/errorHandler';
+
+export type DetectionConfidence = 'high' | 'medium' | 'low';
+
+export interface MissingInput {
+    name: string;
+    description: string;
+    format?: string;
+}
+
+export interface ProviderCandidate {
+    provider: string;
+    displayName: string;
+    confidence: DetectionConfidence;
+    // True when every required input is present and can be sent to /verify as is
+    ready: boolean;
+    missingInputs: MissingInput[];
+}
+
+export interface ReferenceAnalysis {
+    reference: string;
+    candidates: ProviderCandidate[];
+}
+
+// Providers without a documented reference format still accept plain alphanumeric references
+const GENERIC_REFERENCE = /^[A-Z0-9-]+$/i;
+
+interface Match {
+    provider: ProviderDefinition<any>;
+    missing: string[];
+    // Non-reference inputs in the payload that this provider uses
+    supplied: number;
+}
+
+const referenceSpec = (provider: ProviderDefinition<any>) => provider.inputs.find(spec => spec.name === 'reference');
+
+// References are often pasted with spaces or in lower case
+export const normalizeReference = (reference: string): string => reference.replace(/\s+/g, '').toUpperCase();
+
+function match(provider: ProviderDefinition<any>, payload: Record<string, unknown>, reference: string): Match | null {
+    const { missing, invalid } = validateProviderInput(provider, { ...payload, reference });
+    // A suffix or phone number in the wrong shape rules the provider out
+    if (invalid.length > 0) return null;
+
+    const supplied = provider.inputs.filter(spec =>
+        spec.name !== 'reference' &&
+        [spec.name, ...(spec.aliases ?? [])].some(key => payload[key] !== undefined && payload[key] !== '')
+    ).length;
+    return { provider, missing, supplied };
+}
+
+// What a client has to ask the user for, in the shape the API returns it
+export function describeMissingInputs(provider: ProviderDefinition<any>, missing: string[]): MissingInput[] {
+    return missing.map(name => {
+        const spec = provider.inputs.find(input => input.name === name)!;
+        return { name, description: spec.description, ...(spec.patternHint && { format: spec.patternHint }) };
+    });
+}
+
+function toCandidate({ provider, missing }: Match, confidence: DetectionConfidence): ProviderCandidate {
+    return {
+        provider: provider.name,
+        displayName: provider.displayName,
+        confidence,
+        ready: missing.length === 0,
+        missingInputs: describeMissingInputs(provider, missing)
+    };
+}
+
+/**
+ * Work out which providers a reference can belong to from the formats
+ * their inputs declare, and what each still needs. Other inputs in the
+ * payload (suffix, phone) narrow the list: a provider that uses them ranks
+ * first, one whose format they contradict is dropped. Providers without a
+ * reference format are only offered, with low confidence, when no format
+ * matched.
+ */
+export function analyzeReference(rawReference: string, payload: Record<string, unknown> = {}): ReferenceAnalysis {
+    const reference = normalizeReference(rawReference);
+    const patterned: Match[] = [];
+    const unpatterned: ProviderDefinition<any>[] = [];
+
+    for (const provider of listProviders()) {
+        const spec = referenceSpec(provider);
+        if (!spec) continue;
+        if (!spec.pattern) {
+            unpatterned.push(provider);
+            continue;
+        }
+        if (!spec.pattern.test(reference)) continue;
+
+        const result = match(provider, payload, reference);
+        if (result) patterned.push(result);
+    }
+
+    if (patterned.length === 0) {
+        const fallback = GENERIC_REFERENCE.test(reference)
+            ? unpatterned.map(provider => match(provider, payload, reference)).filter((m): m is Match => m !== null)
+            : [];
+        return { reference, candidates: fallback.map(m => toCandidate(m, 'low')) };
+    }
+
+    const ranked = [...patterned].sort((a, b) => b.supplied - a.supplied || a.missing.length - b.missing.length);
+    const [best, next] = ranked;
+    const decisive = !next || best.supplied > next.supplied;
+
+    return {
+        reference,
+        candidates: ranked.map(m => toCandidate(m, decisive && m === best ? 'high' : 'medium'))
+    };
+}
+
+/**
+ * Reject inputs whose format cannot belong to this provider before any
+ * upstream call is made. Missing inputs are left to the caller.
+ */
+export function assertInputFormat(providerName: string, input: Record<string, unknown>): void {
+    const provider = getProvider(providerName);
+    if (!provider) return;
+
+    const { invalid } = validateProviderInput(provider, input);
+    if (invalid.length === 0) return;
+
+    const fields = invalid.map(name => {
+        const spec = provider.inputs.find(candidate => candidate.name === name)!;
+        return { name, ...(spec.patternHint && { format: spec.patternHint }) };
+    });
+    throw new ProviderError(
+        ErrorType.INVALID_REFERENCE_FORMAT,
+        `Invalid ${provider.displayName} ${invalid.join(' and ')}: ${fields.map(f => f.format ?? 'unexpected format').join('; ')}`,
+        { fields }
+    );
+}
@@ -0,0 +1,156 @@
+import { describe, test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    buildCacheKey,
+    cacheHeader,
+    CachedOutcome,
+    FetchedOutcome,
+    skipsCachedResult,
+    withResultCache
+} from './resultCache';
+import { ProviderDefinition } from './providerRegistry';
+import { NormalizedReceipt } from './normalizedReceipt';
+import { createMemoryResultCacheStore, ResultCacheStore, setResultCacheStore } from '../utils/resultCacheStore';
+import logger from '../utils/logger';
+
+logger.silent = true;
+
+const provider: ProviderDefinition = {
+    name: 'testbank',
+    displayName: 'Test Bank',
+    legacyPath: '/verify-testbank',
+    inputs: [
+        { name: 'reference', description: 'Reference', required: true },
+        { name: 'suffix', description: 'Account suffix', required: false }
+    ],
+    verify: async () => ({ success: false }),
+    normalize: () => {
+        throw new Error('not used');
+    },
+    cacheTtlSeconds: 600
+};
+
+const receipt = (status: NormalizedReceipt['status'] = 'completed'): NormalizedReceipt => ({
+    provider: 'testbank',
+    reference: 'FT1',
+    status,
+    payer: { name: 'Payer', account: '****1111' },
+    payee: { name: 'Payee', account: '****2222' },
+    amount: 10000,
+    currency: 'ETB',
+    fees: null,
+    vat: null,
+    timestamp: null,
+    reason: null,
+    raw: {}
+});
+
+// The memory store on a clock the tests move, keeping what was written
+const createClockedStore = () => {
+    const clock = { now: 0 };
+    const memory = createMemoryResultCacheStore();
+    const written: unknown[] = [];
+    const store: ResultCacheStore = {
+        name: 'test',
+        get: key => memory.get(key, clock.now),
+        async set(key, value, ttlMs) {
+            written.push(value);
+            await memory.set(key, value, ttlMs, clock.now);
+        }
+    };
+    return { store, clock, written };
+};
+
+describe('result cache', () => {
+    let clock: { now: number };
+    let written: unknown[];
+    let loads: number;
+
+    beforeEach(() => {
+        const clocked = createClockedStore();
+        setResultCacheStore(clocked.store);
+        clock = clocked.clock;
+        written = clocked.written;
+        loads = 0;
+    });
+
+    const lookup = (input: Record<string, string>, outcome: FetchedOutcome, bypass = false) =>
+        withResultCache(provider, input, bypass, async () => {
+            loads++;
+            return outcome;
+        });
+
+    test('keys entries by provider and inputs, ignoring case and whitespace', () => {
+        const key = buildCacheKey(provider, { reference: 'ft 123', suffix: '4567' });
+        assert.equal(key, buildCacheKey(provider, { reference: 'FT123 ', suffix: '4567' }));
+        assert.notEqual(key, buildCacheKey(provider, { reference: 'FT123', suffix: '9999' }));
+        assert.match(key, /^testbank:[0-9a-f]{64}$/);
+        // Inputs are hashed, not stored in clear
+        assert.ok(!key.includes('4567'));
+    });
+
+    test('misses first, then serves the stored receipt', async () => {
+        const first = await lookup({ reference: 'FT1' }, { success: true, receipt: receipt() });
+        const second = await lookup({ reference: 'ft1' }, { success: true, receipt: receipt() });
+
+        assert.equal(first.cache, 'MISS');
+        assert.equal(second.cache, 'HIT');
+        assert.deepEqual(second.outcome, { success: true, receipt: receipt() });
+        assert.equal(loads, 1);
+    });
+
+    test('expires a completed receipt after the provider TTL', async () => {
+        await lookup({ reference: 'FT1' }, { success: true, receipt: receipt() });
+
+        clock.now = 599_999;
+        assert.equal((await lookup({ reference: 'FT1' }, { success: true, receipt: receipt() })).cache, 'HIT');
+        clock.now = 600_000;
+        assert.equal((await lookup({ reference: 'FT1' }, { success: true, receipt: receipt() })).cache, 'MISS');
+        assert.equal(loads, 2);
+    });
+
+    test('keeps "not found" and unfinished receipts only briefly', async () => {
+        await lookup({ reference: 'GONE' }, { success: false, error: 'not found' });
+        await lookup({ reference: 'PENDING' }, { success: true, receipt: receipt('pending') });
+
+        clock.now = 60_000;
+        assert.equal((await lookup({ reference: 'GONE' }, { success: false })).cache, 'MISS');
+        assert.equal((await lookup({ reference: 'PENDING' }, { success: true, receipt: receipt() })).cache, 'MISS');
+    });
+
+    test('refreshes the entry when the lookup is bypassed', async () => {
+        await lookup({ reference: 'FT1' }, { success: true, receipt: receipt('pending') });
+
+        const bypassed = await lookup({ reference: 'FT1' }, { success: true, receipt: receipt() }, true);
+        assert.equal(bypassed.cache, 'BYPASS');
+
+        const cached = await lookup({ reference: 'FT1' }, { success: false });
+        assert.equal(cached.cache, 'HIT');
+        assert.equal((cached.outcome as { receipt: NormalizedReceipt }).receipt.status, 'completed');
+    });
+
+    test('returns the unmasked payee account to the caller but never stores it', async () => {
+        const fresh = await lookup({ reference: 'FT1' }, { success: true, receipt: receipt(), payeeAccount: '1000123452222' });
+        assert.equal(fresh.outcome.payeeAccount, '1000123452222');
+
+        assert.deepEqual(written, [{ success: true, receipt: receipt() } satisfies CachedOutcome]);
+        assert.ok(!JSON.stringify(written).includes('1000123452222'));
+
+        const cached = await lookup({ reference: 'FT1' }, { success: false });
+        assert.equal(cached.outcome.payeeAccount, undefined);
+    });
+
+    test('skips the cached answer for consume, expectations and no-cache', () => {
+        assert.equal(skipsCachedResult({}), false);
+        assert.equal(skipsCachedResult({ consume: false }), false);
+        assert.equal(skipsCachedResult({ consume: true }), true);
+        assert.equal(skipsCachedResult({ expectation: { minAmount: 100 } }), true);
+        assert.equal(skipsCachedResult({ noCache: true }), true);
+    });
+
+    test('reports hits in X-Cache and everything else as a miss', () => {
+        assert.deepEqual(cacheHeader('HIT'), { 'X-Cache': 'HIT' });
+        assert.deepEqual(cacheHeader('MISS'), { 'X-Cache': 'MISS' });
+        assert.deepEqual(cacheHeader('BYPASS'), { 'X-Cache': 'MISS' });
+    });
+});
@@ -0,0 +1,155 @@
+import crypto from 'crypto';
+import { ProviderDefinition, ProviderInput } from './providerRegistry';
+import { NormalizedReceipt } from './normalizedReceipt';
+import { getResultCacheStore } from '../utils/resultCacheStore';
+import logger from '../utils/logger';
+
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+
+// What is cached for a lookup: the masked normalized receipt or the upstream's "not found"
+export type CachedOutcome =
+    | { success: true; receipt: NormalizedReceipt }
+    | { success: false; error?: string };
+
+// A fresh answer also carries the unmasked payee account for expectation checks; it is never stored
+export type FetchedOutcome = CachedOutcome & { payeeAccount?: string | null };
+
+const ENABLED = process.env.RESULT_CACHE_ENABLED !== 'false';
+const DEFAULT_TTL_SECONDS = parseInt(process.env.RESULT_CACHE_TTL_SECONDS || '3600', 10);
+// Failures and pending receipts may change soon, so they are kept briefly
+const NEGATIVE_TTL_SECONDS = parseInt(process.env.RESULT_CACHE_NEGATIVE_TTL_SECONDS || '60', 10);
+
+// Per-provider overrides, e.g. RESULT_CACHE_TTLS="cbe:86400,telebirr:600"
+const ttlOverrides = new Map(
+    (process.env.RESULT_CACHE_TTLS || '')
+        .split(',')
+        .map(entry => entry.split(':').map(part => part.trim()))
+        .filter(([name, ttl]) => name && Number(ttl) >= 0)
+        .map(([name, ttl]) => [name.toLowerCase(), Number(ttl)] as [string, number])
+);
+
+interface Counters {
+    hits: number;
+    misses: number;
+    bypasses: number;
+}
+
+const counters = new Map<string, Counters>();
+
+function count(provider: string, status: CacheStatus) {
+    const entry = counters.get(provider) ?? { hits: 0, misses: 0, bypasses: 0 };
+    if (status === 'HIT') entry.hits++;
+    else if (status === 'MISS') entry.misses++;
+    else entry.bypasses++;
+    counters.set(provider, entry);
+}
+
+// `Cache-Control: no-cache` (or `no-store`) on the request forces a fresh fetch
+export const bypassesCache = (cacheControl?: string): boolean => /no-cache|no-store/i.test(cacheControl ?? '');
+
+/**
+ * Whether a verification must skip the cached answer. Claiming a receipt
+ * (`consume`) and checking an expectation both need the bank's current
+ * answer, the latter with the full payee account the cache does not keep.
+ * The fresh answer still refreshes the entry.
+ */
+export const skipsCachedResult = (request: { noCache?: boolean; consume?: boolean; expectation?: unknown }): boolean =>
+    Boolean(request.noCache || request.consume || request.expectation);
+
+// The header sent with every verification; a bypass is reported as a miss
+export const cacheHeader = (cache: CacheStatus): Record<string, string> => ({ 'X-Cache': cache === 'HIT' ? 'HIT' : 'MISS' });
+
+/**
+ * Cache key: provider plus a hash of its normalized inputs, in the order
+ * the provider declares them. References are matched case- and
+ * whitespace-insensitively; inputs are hashed so phone numbers and
+ * account suffixes are not stored in clear.
+ */
+export function buildCacheKey(provider: ProviderDefinition<any>, input: ProviderInput): string {
+    const parts = provider.inputs.map(spec => (input[spec.name] ?? '').replace(/\s+/g, '').toUpperCase());
+    const digest = crypto.createHash('sha256').update(parts.join('|')).digest('hex');
+    return `${provider.name}:${digest}`;
+}
+
+function ttlSeconds(provider: ProviderDefinition<any>, outcome: CachedOutcome): number {
+    if (!outcome.success || outcome.receipt.status !== 'completed') {
+        return NEGATIVE_TTL_SECONDS;
+    }
+    return ttlOverrides.get(provider.name) ?? provider.cacheTtlSeconds ?? DEFAULT_TTL_SECONDS;
+}
+
+/**
+ * Return the cached outcome for these inputs, or run `load` and cache what
+ * it returns without `payeeAccount`. `bypass` (see `skipsCachedResult`)
+ * skips the lookup but still refreshes the entry. Errors thrown by `load`
+ * are not cached.
+ * Store failures never fail the verification; the cache is simply skipped.
+ */
+export async function withResultCache(
+    provider: ProviderDefinition<any>,
+    input: ProviderInput,
+    bypass: boolean,
+    load: () => Promise<FetchedOutcome>
+): Promise<{ outcome: FetchedOutcome; cache: CacheStatus }> {
+    if (!ENABLED) {
+        return { outcome: await load(), cache: 'BYPASS' };
+    }
+
+    const store = getResultCacheStore();
+    const key = buildCacheKey(provider, input);
+
+    if (!bypass) {
+        try {
+            const cached = await store.get<CachedOutcome>(key);
+            if (cached) {
+                count(provider.name, 'HIT');
+                logger.debug(`Result cache hit for ${provider.name}`);
+                return { outcome: cached.value, cache: 'HIT' };
+            }
+        } catch (err) {
+            logger.error('Error reading result cache:', err);
+        }
+    }
+
+    const status: CacheStatus = bypass ? 'BYPASS' : 'MISS';
+    count(provider.name, status);
+
+    const outcome = await load();
+    const ttl = ttlSeconds(provider, outcome);
+    if (ttl > 0) {
+        const { payeeAccount, ...cached } = outcome;
+        try {
+            await store.set<CachedOutcome>(key, cached as CachedOutcome, ttl * 1000);
+        } catch (err) {
+            logger.error('Error writing result cache:', err);
+        }
+    }
+
+    return { outcome, cache: status };
+}
+
+const hitRate = ({ hits, misses, bypasses }: Counters) => {
+    const total = hits + misses + bypasses;
+    return total === 0 ? null : Math.round((hits / total) * 1000) / 1000;
+};
+
+// Hit and miss counts since startup, overall and per provider
+export function getResultCacheStats() {
+    const total: Counters = { hits: 0, misses: 0, bypasses: 0 };
+    const byProvider: Record<string, Counters & { hitRate: number | null }> = {};
+
+    counters.forEach((entry, provider) => {
+        total.hits += entry.hits;
+        total.misses += entry.misses;
+        total.bypasses += entry.bypasses;
+        byProvider[provider] = { ...entry, hitRate: hitRate(entry) };
+    });
+
+    return {
+        enabled: ENABLED,
+        store: getResultCacheStore().name,
+        ...total,
+        hitRate: hitRate(total),
+        byProvider
+    };
+}
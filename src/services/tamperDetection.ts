@@ -0,0 +1,123 @@
+import pdf from 'pdf-parse';
+import { NormalizedReceipt, fromAddisTimestamp, toMinorUnits } from './normalizedReceipt';
+import { namesMatch } from './expectations';
+
+/**
+ * What a receipt image shows, as read by the vision model. Values are the
+ * printed text; amounts may include separators or a currency.
+ */
+export interface DisplayedFields {
+    amount?: string | number | null;
+    payer?: string | null;
+    receiver?: string | null;
+    date?: string | null;
+}
+
+export interface DisplayedMismatch {
+    field: keyof DisplayedFields;
+    shown: string | number;
+    actual: string | number | null;
+}
+
+export interface PdfMetadata {
+    producer: string | null;
+    creator: string | null;
+    creationDate: string | null;
+    modDate: string | null;
+    incrementalUpdates: number;
+}
+
+// Producers and creators of desktop and online PDF editors; bank systems do not use them
+const EDITOR_PATTERN = /acrobat(?!.*distiller)|ilovepdf|smallpdf|sejda|pdfescape|foxit|pdf-xchange|nitro|canva|word|libreoffice|pdfelement|photoshop|inkscape|pdf24|soda pdf/i;
+
+// A save that only changed the modification date by a few seconds is not an edit
+const MOD_DATE_TOLERANCE_MS = 60 * 1000;
+
+/**
+ * Compare what a receipt image shows with the bank's own record. Fields the
+ * image does not show, or the bank does not report, are skipped. The amount
+ * may be shown with or without fees and VAT.
+ */
+export function compareDisplayedFields(displayed: DisplayedFields, receipt: NormalizedReceipt): DisplayedMismatch[] {
+    const mismatches: DisplayedMismatch[] = [];
+
+    const shownAmount = toMinorUnits(displayed.amount ?? null);
+    if (shownAmount !== null && receipt.amount !== null) {
+        const total = receipt.amount + (receipt.fees ?? 0) + (receipt.vat ?? 0);
+        if (shownAmount !== receipt.amount && shownAmount !== total) {
+            mismatches.push({ field: 'amount', shown: shownAmount, actual: receipt.amount });
+        }
+    }
+
+    const names: [keyof DisplayedFields, string | null][] = [
+        ['payer', receipt.payer.name],
+        ['receiver', receipt.payee.name]
+    ];
+    for (const [field, actual] of names) {
+        const shown = displayed[field];
+        if (typeof shown === 'string' && shown.trim() && actual && !namesMatch(shown, actual)) {
+            mismatches.push({ field, shown, actual });
+        }
+    }
+
+    const shownDate = typeof displayed.date === 'string' ? fromAddisTimestamp(displayed.date) : null;
+    if (shownDate && receipt.timestamp) {
+        // Compare to the minute when the image shows a time, otherwise only the day
+        const length = /\d{1,2}:\d{2}/.test(displayed.date as string) ? 16 : 10;
+        if (shownDate.slice(0, length) !== receipt.timestamp.slice(0, length)) {
+            mismatches.push({ field: 'date', shown: displayed.date as string, actual: receipt.timestamp });
+        }
+    }
+
+    return mismatches;
+}
+
+// "D:20250510091500+03'00'" -> ISO-8601
+function fromPdfDate(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const match = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/);
+    if (!match) return null;
+
+    const [, y, m = '01', d = '01', h = '00', mi = '00', s = '00', zone] = match;
+    const offset = !zone || zone === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.replace(/'/g, '').slice(3, 5) || '00'}`;
+    const date = new Date(`${y}-${m}-${d}T${h}:${mi}:${s}${offset}`);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Read the document info and revision history of a PDF and list what
+ * suggests it was edited: an editor as producer or creator, a
+ * modification date after creation, or incremental updates appended after
+ * the original file.
+ */
+export async function inspectPdfMetadata(buffer: Buffer): Promise<{ metadata: PdfMetadata; signals: string[] }> {
+    const { info } = await pdf(buffer, { max: 1 });
+    const raw = buffer.toString('latin1');
+
+    const metadata: PdfMetadata = {
+        producer: info?.Producer ?? null,
+        creator: info?.Creator ?? null,
+        creationDate: fromPdfDate(info?.CreationDate),
+        modDate: fromPdfDate(info?.ModDate),
+        // Each incremental save appends another %%EOF; linearized files carry one extra from the start
+        incrementalUpdates: Math.max(0, (raw.match(/%%EOF/g) ?? []).length - 1 - (/\/Linearized/.test(raw) ? 1 : 0))
+    };
+
+    const signals: string[] = [];
+    for (const [label, value] of [['producer', metadata.producer], ['creator', metadata.creator]] as const) {
+        if (value && EDITOR_PATTERN.test(value)) {
+            signals.push(`PDF ${label} is an editing tool: ${value}`);
+        }
+    }
+    if (
+        metadata.creationDate && metadata.modDate &&
+        Date.parse(metadata.modDate) - Date.parse(metadata.creationDate) > MOD_DATE_TOLERANCE_MS
+    ) {
+        signals.push(`PDF was modified after it was created (${metadata.modDate})`);
+    }
+    if (metadata.incrementalUpdates > 0) {
+        signals.push(`PDF has ${metadata.incrementalUpdates} incremental update(s) appended after the original`);
+    }
+
+    return { metadata, signals };
+}
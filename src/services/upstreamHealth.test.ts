@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getUpstreamHealth, registerUpstream } from './upstreamHealth';
+import { ErrorType, ProviderError } from '../utils/errorHandler';
+import logger from '../utils/logger';
+
+logger.silent = true;
+
+const healthOf = (name: string) => getUpstreamHealth().find(upstream => upstream.name === name)!;
+
+const failWith = async (name: string, error: unknown, times: number) => {
+    const upstream = registerUpstream(name);
+    for (let i = 0; i < times; i++) {
+        await assert.rejects(upstream.call(() => Promise.reject(error)));
+    }
+};
+
+test('opens the circuit after consecutive network failures', async () => {
+    await failWith('test-network', Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }), 5);
+
+    const health = healthOf('test-network');
+    assert.equal(health.state, 'open');
+    assert.equal(health.errorRate, 1);
+    await assert.rejects(registerUpstream('test-network').call(() => Promise.resolve('ok')), { type: ErrorType.UPSTREAM_UNAVAILABLE });
+});
+
+test('counts timeouts and blocking raised inside the call as failures', async () => {
+    await failWith('test-timeout', new ProviderError(ErrorType.UPSTREAM_TIMEOUT, 'did not respond in time'), 5);
+    await failWith('test-blocked', new ProviderError(ErrorType.UPSTREAM_BLOCKED, 'refused the request'), 5);
+
+    assert.equal(healthOf('test-timeout').state, 'open');
+    assert.equal(healthOf('test-blocked').state, 'open');
+});
+
+test('treats parse failures and missing receipts as answers, not outages', async () => {
+    await failWith('test-answers', new ProviderError(ErrorType.PARSE_FAILED, 'Error parsing PDF data'), 3);
+    await failWith('test-answers', new ProviderError(ErrorType.RECEIPT_NOT_FOUND, 'Receipt not found'), 3);
+
+    const health = healthOf('test-answers');
+    assert.equal(health.state, 'closed');
+    assert.equal(health.consecutiveFailures, 0);
+    assert.equal(health.errorRate, 0);
+});
@@ -0,0 +1,231 @@
+import { AxiosError } from 'axios';
+import { ErrorType, ProviderError } from '../utils/errorHandler';
+import logger from '../utils/logger';
+
+// Consecutive failures that open the circuit
+const FAILURE_THRESHOLD = parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+// How long an open circuit fails fast before letting a probe through
+const OPEN_SECONDS = parseInt(process.env.CIRCUIT_OPEN_SECONDS || '30', 10);
+// Recent calls kept per upstream for error rate and latency figures
+const STATS_WINDOW = parseInt(process.env.CIRCUIT_STATS_WINDOW || '100', 10);
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface Sample {
+    ok: boolean;
+    durationMs: number;
+}
+
+interface UpstreamState {
+    name: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: number | null;
+    openUntil: number;
+    probeInFlight: boolean;
+    samples: Sample[];
+    lastError: string | null;
+    lastFailureAt: number | null;
+}
+
+// Extra attempts for timeouts, network errors and 5xx; the delay grows with each attempt
+export interface RetryPolicy {
+    retries: number;
+    retryDelayMs: number;
+}
+
+export interface Upstream {
+    readonly name: string;
+    call<T>(fetch: () => Promise<T>, retry?: RetryPolicy): Promise<T>;
+}
+
+const upstreams = new Map<string, UpstreamState>();
+
+export const isUpstreamUnavailable = (err: unknown): err is ProviderError =>
+    err instanceof ProviderError && err.type === ErrorType.UPSTREAM_UNAVAILABLE;
+
+// Provider errors that mean the portal did not answer usefully; the rest (not found, parse failures) are answers
+const FAILURE_TYPES = new Set<ErrorType>([
+    ErrorType.UPSTREAM_TIMEOUT,
+    ErrorType.UPSTREAM_UNAVAILABLE,
+    ErrorType.UPSTREAM_BLOCKED,
+    ErrorType.GEO_RESTRICTED
+]);
+
+// Portal is down or unreachable: network errors, timeouts and 5xx. A 4xx still means it answered.
+const isUpstreamFailure = (err: unknown): boolean => {
+    if (err instanceof ProviderError) return FAILURE_TYPES.has(err.type);
+    const status = (err as AxiosError)?.response?.status;
+    return status === undefined || status >= 500;
+};
+
+function unavailable(upstream: UpstreamState, retryAfter: number): ProviderError {
+    return new ProviderError(
+        ErrorType.UPSTREAM_UNAVAILABLE,
+        `${upstream.name} is temporarily unavailable. Retry after ${retryAfter} seconds.`,
+        { upstream: upstream.name, retryAfter }
+    );
+}
+
+// Let a call through, or throw while the circuit is open
+function admit(upstream: UpstreamState, now: number) {
+    if (upstream.state === 'closed') return;
+
+    if (upstream.state === 'open' && now >= upstream.openUntil) {
+        upstream.state = 'half-open';
+        upstream.probeInFlight = false;
+        logger.info(`🔌 Circuit for ${upstream.name} is half-open, sending a probe`);
+    }
+
+    if (upstream.state === 'half-open' && !upstream.probeInFlight) {
+        upstream.probeInFlight = true;
+        return;
+    }
+
+    const retryAfter = Math.max(1, Math.ceil((upstream.openUntil - now) / 1000));
+    throw unavailable(upstream, retryAfter);
+}
+
+function record(upstream: UpstreamState, ok: boolean, durationMs: number, error?: unknown) {
+    upstream.samples.push({ ok, durationMs });
+    if (upstream.samples.length > STATS_WINDOW) upstream.samples.shift();
+
+    const wasProbe = upstream.state === 'half-open';
+    upstream.probeInFlight = false;
+
+    if (ok) {
+        if (upstream.state !== 'closed') {
+            logger.info(`✅ Circuit for ${upstream.name} closed again`);
+        }
+        upstream.state = 'closed';
+        upstream.consecutiveFailures = 0;
+        upstream.openedAt = null;
+        return;
+    }
+
+    upstream.consecutiveFailures++;
+    upstream.lastError = error instanceof Error ? error.message : String(error);
+    upstream.lastFailureAt = Date.now();
+
+    if (wasProbe || (upstream.state === 'closed' && upstream.consecutiveFailures >= FAILURE_THRESHOLD)) {
+        upstream.state = 'open';
+        upstream.openedAt = upstream.openedAt ?? Date.now();
+        upstream.openUntil = Date.now() + OPEN_SECONDS * 1000;
+        logger.warn(`🚫 Circuit for ${upstream.name} opened after ${upstream.consecutiveFailures} consecutive failures`);
+    }
+}
+
+/**
+ * Circuit breaker for one bank portal. Wrap every fetch to the portal in
+ * `call`: outcomes feed the breaker, and while it is open calls fail fast
+ * with `UPSTREAM_UNAVAILABLE` instead of waiting for the request timeout.
+ * After `CIRCUIT_OPEN_SECONDS` a single probe is let through; its result
+ * closes or reopens the circuit. With a retry policy, every attempt counts
+ * on its own and retrying stops once the circuit opens.
+ */
+export function registerUpstream(name: string): Upstream {
+    let upstream = upstreams.get(name);
+    if (!upstream) {
+        upstream = {
+            name,
+            state: 'closed',
+            consecutiveFailures: 0,
+            openedAt: null,
+            openUntil: 0,
+            probeInFlight: false,
+            samples: [],
+            lastError: null,
+            lastFailureAt: null
+        };
+        upstreams.set(name, upstream);
+    }
+    const state = upstream;
+
+    return {
+        name,
+        async call<T>(fetch: () => Promise<T>, retry: RetryPolicy = { retries: 0, retryDelayMs: 0 }): Promise<T> {
+            for (let attempt = 0; ; attempt++) {
+                admit(state, Date.now());
+                const start = Date.now();
+                try {
+                    const result = await fetch();
+                    record(state, true, Date.now() - start);
+                    return result;
+                } catch (err) {
+                    const failed = isUpstreamFailure(err);
+                    record(state, !failed, Date.now() - start, err);
+                    // Parse failures and provider answers are final; so is the last attempt
+                    if (!failed || err instanceof ProviderError || attempt >= retry.retries) throw err;
+                    logger.warn(`🔁 ${name} attempt ${attempt + 1} failed, retrying`, {
+                        error: err instanceof Error ? err.message : String(err)
+                    });
+                    await new Promise(resolve => setTimeout(resolve, retry.retryDelayMs * (attempt + 1)));
+                }
+            }
+        }
+    };
+}
+
+const TIMEOUT_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT']);
+
+/**
+ * Map a failed fetch to a provider error. `geoFenced` marks portals that
+ * refuse foreign IPs (Telebirr): there a 403 or DNS failure is reported as
+ * GEO_RESTRICTED rather than a block or outage.
+ */
+export function classifyUpstreamError(err: unknown, upstream: string, options: { geoFenced?: boolean } = {}): ProviderError {
+    if (err instanceof ProviderError) return err;
+
+    const axiosError = err as AxiosError;
+    const status = axiosError?.response?.status;
+    const code = axiosError?.code;
+    const message = err instanceof Error ? err.message : String(err);
+    const details = { upstream, ...(status && { upstreamStatus: status }) };
+
+    if ((code && TIMEOUT_CODES.has(code)) || (err instanceof Error && err.name === 'TimeoutError') || /timeout/i.test(message)) {
+        return new ProviderError(ErrorType.UPSTREAM_TIMEOUT, `${upstream} did not respond in time`, details);
+    }
+    if (options.geoFenced && (status === 403 || status === 451 || code === 'ENOTFOUND')) {
+        return new ProviderError(ErrorType.GEO_RESTRICTED, `${upstream} refuses requests from this server's region`, details);
+    }
+    if (status === 404) {
+        return new ProviderError(ErrorType.RECEIPT_NOT_FOUND, 'Receipt not found', details);
+    }
+    if (status === 400) {
+        return new ProviderError(ErrorType.INVALID_REFERENCE_FORMAT, `${upstream} rejected the reference`, details);
+    }
+    if (status === 401 || status === 403 || status === 429 || status === 451) {
+        return new ProviderError(ErrorType.UPSTREAM_BLOCKED, `${upstream} refused the request (HTTP ${status})`, details);
+    }
+    return new ProviderError(
+        ErrorType.UPSTREAM_UNAVAILABLE,
+        status ? `${upstream} responded with HTTP ${status}` : `${upstream} is unreachable: ${message}`,
+        details
+    );
+}
+
+const percentile = (values: number[], p: number): number | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+};
+
+// Current breaker state, error rate and p95 latency of every upstream
+export function getUpstreamHealth() {
+    const now = Date.now();
+    return Array.from(upstreams.values()).map(upstream => {
+        const failures = upstream.samples.filter(sample => !sample.ok).length;
+        return {
+            name: upstream.name,
+            state: upstream.state,
+            consecutiveFailures: upstream.consecutiveFailures,
+            openedAt: upstream.openedAt ? new Date(upstream.openedAt).toISOString() : null,
+            retryAfter: upstream.state === 'open' ? Math.max(0, Math.ceil((upstream.openUntil - now) / 1000)) : null,
+            recentCalls: upstream.samples.length,
+            errorRate: upstream.samples.length ? Math.round((failures / upstream.samples.length) * 1000) / 1000 : null,
+            p95LatencyMs: percentile(upstream.samples.map(sample => sample.durationMs), 95),
+            lastError: upstream.lastError,
+            lastFailureAt: upstream.lastFailureAt ? new Date(upstream.lastFailureAt).toISOString() : null
+        };
+    });
+}
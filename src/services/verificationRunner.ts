@@ -0,0 +1,230 @@
+import {
+    getProvider,
+    listProviders,
+    validateProviderInput,
+    normalizeReceipt,
+    ProviderContext,
+    ProviderInput
+} from './providers';
+import { parseExpectation, evaluateExpectation, PaymentExpectation } from './expectations';
+import { claimReceipt } from './receiptClaims';
+import { getProviderSlots } from './providerConcurrency';
+import { cacheHeader, skipsCachedResult, withResultCache } from './resultCache';
+import { AppError, ErrorType, ProviderError, providerErrorBody } from '../utils/errorHandler';
+import logger from '../utils/logger';
+
+/**
+ * A validated verification request. It only holds plain data so it can be
+ * handed to background jobs as well as run inline.
+ */
+export interface VerificationRequest {
+    provider: string;
+    input: ProviderInput;
+    expectation?: PaymentExpectation;
+    consume?: boolean;
+    orderId?: string;
+    apiKeyId?: string;
+    // Skip the result cache lookup (`Cache-Control: no-cache`)
+    noCache?: boolean;
+}
+
+// HTTP status and JSON body of a verification, shared by sync and async callers
+export interface VerificationResponse {
+    status: number;
+    body: Record<string, unknown>;
+    headers?: Record<string, string>;
+}
+
+export type ParsedVerificationRequest =
+    | { request: VerificationRequest; error?: undefined }
+    | { request?: undefined; error: VerificationResponse };
+
+/**
+ * Validate a `/verify`-style payload: provider inputs plus the optional
+ * `expect`, `consume` and `orderId` fields.
+ */
+export function parseVerificationRequest(
+    providerName: unknown,
+    body: Record<string, unknown>,
+    apiKeyId?: string
+): ParsedVerificationRequest {
+    const { expect, consume, orderId, ...payload } = body;
+
+    if (!providerName || typeof providerName !== 'string') {
+        return { error: { status: 400, body: { success: false, error: 'provider is required' } } };
+    }
+
+    const provider = getProvider(providerName);
+    if (!provider) {
+        return {
+            error: {
+                status: 400,
+                body: {
+                    success: false,
+                    error: `Unknown provider: ${providerName}`,
+                    providers: listProviders().map(p => p.name)
+                }
+            }
+        };
+    }
+
+    const { input, errors: inputErrors, invalid } = validateProviderInput(provider, payload);
+    const { expectation, errors: expectErrors } = parseExpectation(expect);
+    const errors = [...inputErrors, ...expectErrors];
+    if (consume !== undefined && typeof consume !== 'boolean') {
+        errors.push('consume must be a boolean');
+    }
+    if (orderId !== undefined && (typeof orderId !== 'string' || !orderId.trim())) {
+        errors.push('orderId must be a non-empty string');
+    }
+    if (consume && !apiKeyId) {
+        errors.push('consume requires an authenticated API key');
+    }
+    if (errors.length > 0) {
+        logger.warn(`❌ Invalid input for ${provider.name} verification: ${errors.join(', ')}`);
+        // A malformed reference or suffix is reported with its own code so clients know not to retry
+        const code = invalid.length > 0 ? { code: ErrorType.INVALID_REFERENCE_FORMAT, retryable: false } : {};
+        return {
+            error: { status: 400, body: { success: false, ...code, error: 'Invalid request parameters', details: errors } }
+        };
+    }
+
+    return {
+        request: {
+            provider: provider.name,
+            input,
+            expectation,
+            consume: consume as boolean | undefined,
+            orderId: typeof orderId === 'string' ? orderId.trim() : undefined,
+            apiKeyId
+        }
+    };
+}
+
+/**
+ * Run a verification end to end: fetch (or read from the result cache),
+ * normalize, check expectations and optionally claim the receipt.
+ */
+export async function executeVerification(
+    request: VerificationRequest,
+    context: ProviderContext = {}
+): Promise<VerificationResponse> {
+    const provider = getProvider(request.provider);
+    if (!provider) {
+        return { status: 400, body: { success: false, error: `Unknown provider: ${request.provider}` } };
+    }
+
+    try {
+        const { outcome, cache } = await withResultCache(provider, request.input, skipsCachedResult(request), async () => {
+            logger.info(`🔍 Dispatching verification to ${provider.name}`, { input: request.input });
+            const release = await getProviderSlots(provider.name).acquire();
+            try {
+                const result = await provider.verify(request.input, context);
+                // The full payee account travels beside the masked receipt for expectation checks, but is not cached
+                return result.success
+                    ? {
+                        success: true as const,
+                        receipt: normalizeReceipt(provider, result.data),
+                        payeeAccount: provider.normalize(result.data).payee.account
+                    }
+                    : { success: false as const, error: result.error };
+            } catch (err) {
+                // "Not found" is a definitive answer and is cached; other errors are not
+                if (err instanceof ProviderError && err.type === ErrorType.RECEIPT_NOT_FOUND) {
+                    return { success: false as const, error: err.message };
+                }
+                throw err;
+            } finally {
+                release();
+            }
+        });
+
+        if (!outcome.success) {
+            logger.warn(`❌ ${provider.name} verification failed: ${outcome.error}`);
+            const notFound = new ProviderError(
+                ErrorType.RECEIPT_NOT_FOUND,
+                outcome.error || 'Transaction not found or verification failed'
+            );
+            return {
+                status: notFound.statusCode,
+                headers: cacheHeader(cache),
+                body: { ...providerErrorBody(notFound), provider: provider.name }
+            };
+        }
+
+        const receipt = outcome.receipt;
+        const unmasked = { ...receipt, payee: { ...receipt.payee, account: outcome.payeeAccount ?? receipt.payee.account } };
+        const report = request.expectation && evaluateExpectation(unmasked, request.expectation);
+
+        // Only a completed payment can be claimed; a pending one may still fail
+        if (request.consume && receipt.status !== 'completed') {
+            return {
+                status: 422,
+                headers: cacheHeader(cache),
+                body: {
+                    success: false,
+                    provider: provider.name,
+                    code: ErrorType.RECEIPT_NOT_COMPLETED,
+                    error: `Receipt status is ${receipt.status}; only completed receipts can be consumed.`,
+                    data: receipt,
+                    ...(report && { expectation: report }),
+                    consumed: false
+                }
+            };
+        }
+
+        // Never burn a receipt on a payment that failed the caller's own checks
+        let consumed: boolean | undefined;
+        if (request.consume && request.apiKeyId) {
+            consumed = false;
+            if (!report || report.matched) {
+                await claimReceipt({
+                    apiKeyId: request.apiKeyId,
+                    provider: provider.name,
+                    reference: receipt.reference ?? request.input.reference,
+                    orderId: request.orderId,
+                    amount: receipt.amount
+                });
+                consumed = true;
+            }
+        }
+
+        return {
+            status: 200,
+            headers: cacheHeader(cache),
+            body: {
+                success: true,
+                provider: provider.name,
+                data: receipt,
+                ...(report && { expectation: report }),
+                ...(consumed !== undefined && { consumed })
+            }
+        };
+    } catch (err) {
+        if (err instanceof AppError && err.type === ErrorType.ALREADY_USED) {
+            return {
+                status: err.statusCode,
+                body: {
+                    success: false,
+                    provider: provider.name,
+                    code: err.type,
+                    error: err.message,
+                    details: err.details
+                }
+            };
+        }
+
+        if (err instanceof ProviderError) {
+            logger.warn(`❌ ${provider.name} verification failed with ${err.type}: ${err.message}`);
+            const retryAfter = err.details?.retryAfter;
+            return {
+                status: err.statusCode,
+                ...(retryAfter !== undefined && { headers: { 'Retry-After': String(retryAfter) } }),
+                body: { ...providerErrorBody(err), provider: provider.name }
+            };
+        }
+
+        logger.error(`💥 ${provider.name} verification error:`, err);
+        return { status: 500, body: { success: false, error: 'Internal server error during verification' } };
+    }
+}
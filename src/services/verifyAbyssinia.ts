@@ -1,6 +1,16 @@
-import axios, { AxiosError } from 'axios';
+import { AxiosError } from 'axios';
 import logger from '../utils/logger';
+import { portalRequestConfig, upstreamGet } from '../utils/upstreamTransport';
+import { assertProviderEnabled, providerSettings } from '../utils/config';
+import { registerProvider } from './providerRegistry';
+import { assertInputFormat } from './referenceAnalysis';
+import { fromWallClockDate, toMinorUnits } from './normalizedReceipt';
 import { VerifyResult } from './verifyCBE';
+import { registerUpstream, classifyUpstreamError } from './upstreamHealth';
+import { ErrorType, ProviderError } from '../utils/errorHandler';
+
+const settings = providerSettings('abyssinia');
+const portal = registerUpstream(new URL(settings.baseUrl).hostname);
 
 export interface AbyssiniaReceipt {
     sourceAccountName: string;
@@ -25,26 +35,26 @@ export interface AbyssiniaReceipt {
  * @param reference Transaction reference (e.g., "FT23062669JJ")
  * @param suffix Last 5 digits of user's account (e.g., "90172")
  * @returns Promise<VerifyResult>
+ * @throws ProviderError when the receipt is missing, unreadable or the API cannot be reached
  */
 export async function verifyAbyssinia(reference: string, suffix: string): Promise<VerifyResult> {
+    assertProviderEnabled('abyssinia');
+    assertInputFormat('abyssinia', { reference, suffix });
+
     try {
         logger.info(`🏦 Starting Abyssinia verification for reference: ${reference} with suffix: ${suffix}`);
         
         // Construct the API URL
-        const apiUrl = `https://cs.bankofabyssinia.com/api/onlineSlip/getDetails/?id=${reference}${suffix}`;
+        const apiUrl = `${settings.baseUrl}/api/onlineSlip/getDetails/?id=${reference}${suffix}`;
         logger.info(`📡 Fetching from URL: ${apiUrl}`);
         
         // Fetch JSON data from the API
-        const response = await axios.get(apiUrl, {
-            timeout: 30000,
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-                'Accept': 'application/json, text/plain, */*',
-                'Accept-Language': 'en-US,en;q=0.9',
-                'Cache-Control': 'no-cache',
-                'Pragma': 'no-cache'
-            }
-        });
+        const response = await portal.call(() => upstreamGet(apiUrl, portalRequestConfig(settings, {
+            'Accept': 'application/json, text/plain, */*',
+            'Accept-Language': 'en-US,en;q=0.9',
+            'Cache-Control': 'no-cache',
+            'Pragma': 'no-cache'
+        })), settings);
         
         logger.info(`✅ Successfully fetched response with status: ${response.status}`);
         
@@ -58,81 +68,10 @@ export async function verifyAbyssinia(reference: string, suffix: string): Promis
         logger.debug(`📊 Response size: ${JSON.stringify(response.data).length} characters`);
         logger.debug(`📝 Content-Type: ${response.headers['content-type'] || 'unknown'}`);
         
-        // Parse the JSON response
-        const jsonData = response.data;
-        
-        // Check if the response has the expected structure
-        if (!jsonData || !jsonData.header || !jsonData.body || !Array.isArray(jsonData.body)) {
-            logger.error('❌ Invalid response structure from Abyssinia API');
-            return { success: false, error: 'Invalid response structure from Abyssinia API' };
-        }
-        
-        // Check if the request was successful
-        if (jsonData.header.status !== 'success') {
-            logger.error(`❌ API returned error status: ${jsonData.header.status}`);
-            return { success: false, error: `API returned error status: ${jsonData.header.status}` };
-        }
-        
-        // Check if there's data in the body
-        if (jsonData.body.length === 0) {
-            logger.error('❌ No transaction data found in response body');
-            return { success: false, error: 'No transaction data found in response body' };
-        }
-        
-        // Extract the first (and typically only) transaction record
-        const transactionData = jsonData.body[0];
-        logger.debug(`📋 Raw transaction data from API:`, JSON.stringify(transactionData, null, 2));
-        logger.debug(`🔍 Available fields in transaction data:`, Object.keys(transactionData));
-        logger.debug(`📊 Number of fields in transaction: ${Object.keys(transactionData).length}`);
-        
-        // Map the response fields to standardized VerifyResult structure with detailed field-by-field logging
-        logger.debug(`🔄 Starting field mapping process...`);
-        
-        // Extract and parse the amount
-        const transferredAmountStr = transactionData['Transferred Amount'] || '';
-        const amount = transferredAmountStr ? parseFloat(transferredAmountStr.replace(/[^\d.]/g, '')) : undefined;
-        
-        // Parse the date
-        const transactionDateStr = transactionData['Transaction Date'] || '';
-        const date = transactionDateStr ? new Date(transactionDateStr) : undefined;
-        
-        const result: VerifyResult = {
-            success: true,
-            payer: transactionData["Payer's Name"] || undefined,
-            payerAccount: transactionData['Source Account'] || undefined,
-            receiver: transactionData['Source Account Name'] || undefined, // This might be the receiver in Abyssinia context
-            receiverAccount: undefined, // Not available in Abyssinia data
-            amount: amount,
-            date: date,
-            reference: transactionData['Transaction Reference'] || undefined,
-            reason: transactionData['Narrative'] || null
-        };
-        
-        // Debug log each field mapping
-        logger.debug(`🏷️  Field mappings:`);
-        logger.debug(`   payer: "${transactionData["Payer's Name"]}" -> "${result.payer}"`);
-        logger.debug(`   payerAccount: "${transactionData['Source Account']}" -> "${result.payerAccount}"`);
-        logger.debug(`   receiver: "${transactionData['Source Account Name']}" -> "${result.receiver}"`);
-        logger.debug(`   amount: "${transactionData['Transferred Amount']}" -> ${result.amount}`);
-        logger.debug(`   date: "${transactionData['Transaction Date']}" -> ${result.date}`);
-        logger.debug(`   reference: "${transactionData['Transaction Reference']}" -> "${result.reference}"`);
-        logger.debug(`   reason: "${transactionData['Narrative']}" -> "${result.reason}"`);
-        
-        logger.debug(`✅ Field mapping completed. Mapped ${Object.keys(result).length} fields.`);
-        
-        logger.debug(`📋 Final mapped result object:`, JSON.stringify(result, null, 2));
-        logger.info(`✅ Successfully parsed Abyssinia receipt for reference: ${result.reference}`);
-        logger.debug(`💰 Key transaction details - Amount: ${result.amount}, Payer: ${result.payer}, Date: ${result.date}`);
-        
-        // Validate that we have essential fields
-        if (!result.reference || !result.amount || !result.payer) {
-            logger.error('❌ Missing essential fields in transaction data');
-            return { success: false, error: 'Missing essential fields in transaction data' };
-        }
-        
-        return result;
+        return parseAbyssiniaResponse(response.data);
         
     } catch (error) {
+        if (error instanceof ProviderError) throw error;
         if (error instanceof AxiosError) {
             logger.error(`❌ HTTP Error fetching Abyssinia receipt: ${error.message}`);
             if (error.response) {
@@ -142,6 +81,125 @@ export async function verifyAbyssinia(reference: string, suffix: string): Promis
         } else {
             logger.error(`❌ Unexpected error in verifyAbyssinia:`, error);
         }
-        return { success: false, error: 'Failed to verify Abyssinia transaction' };
+        throw classifyUpstreamError(error, portal.name);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Map the slip API's JSON answer onto a VerifyResult
+ * @throws ProviderError RECEIPT_NOT_FOUND when the API has no such slip,
+ * PARSE_FAILED when the answer is malformed or lacks essential fields
+ */
+export function parseAbyssiniaResponse(jsonData: any): VerifyResult {
+    // Check if the response has the expected structure
+    if (!jsonData || !jsonData.header || !jsonData.body || !Array.isArray(jsonData.body)) {
+        logger.error('❌ Invalid response structure from Abyssinia API');
+        throw new ProviderError(ErrorType.PARSE_FAILED, 'Invalid response structure from Abyssinia API');
+    }
+    
+    // Check if the request was successful
+    if (jsonData.header.status !== 'success') {
+        logger.error(`❌ API returned error status: ${jsonData.header.status}`);
+        throw new ProviderError(ErrorType.RECEIPT_NOT_FOUND, `API returned error status: ${jsonData.header.status}`);
+    }
+    
+    // Check if there's data in the body
+    if (jsonData.body.length === 0) {
+        logger.error('❌ No transaction data found in response body');
+        throw new ProviderError(ErrorType.RECEIPT_NOT_FOUND, 'No transaction data found in response body');
+    }
+    
+    // Extract the first (and typically only) transaction record
+    const transactionData = jsonData.body[0];
+    logger.debug(`📋 Raw transaction data from API:`, JSON.stringify(transactionData, null, 2));
+    logger.debug(`🔍 Available fields in transaction data:`, Object.keys(transactionData));
+    logger.debug(`📊 Number of fields in transaction: ${Object.keys(transactionData).length}`);
+    
+    // Map the response fields to standardized VerifyResult structure with detailed field-by-field logging
+    logger.debug(`🔄 Starting field mapping process...`);
+    
+    // Extract and parse the amount
+    const transferredAmountStr = transactionData['Transferred Amount'] || '';
+    const amount = transferredAmountStr ? parseFloat(transferredAmountStr.replace(/[^\d.]/g, '')) : undefined;
+    
+    // Parse the date
+    const transactionDateStr = transactionData['Transaction Date'] || '';
+    const date = transactionDateStr ? new Date(transactionDateStr) : undefined;
+    
+    const result: VerifyResult = {
+        success: true,
+        payer: transactionData["Payer's Name"] || undefined,
+        payerAccount: transactionData['Source Account'] || undefined,
+        receiver: transactionData['Source Account Name'] || undefined, // This might be the receiver in Abyssinia context
+        receiverAccount: undefined, // Not available in Abyssinia data
+        amount: amount,
+        date: date,
+        reference: transactionData['Transaction Reference'] || undefined,
+        reason: transactionData['Narrative'] || null
+    };
+    
+    // Debug log each field mapping
+    logger.debug(`🏷️  Field mappings:`);
+    logger.debug(`   payer: "${transactionData["Payer's Name"]}" -> "${result.payer}"`);
+    logger.debug(`   payerAccount: "${transactionData['Source Account']}" -> "${result.payerAccount}"`);
+    logger.debug(`   receiver: "${transactionData['Source Account Name']}" -> "${result.receiver}"`);
+    logger.debug(`   amount: "${transactionData['Transferred Amount']}" -> ${result.amount}`);
+    logger.debug(`   date: "${transactionData['Transaction Date']}" -> ${result.date}`);
+    logger.debug(`   reference: "${transactionData['Transaction Reference']}" -> "${result.reference}"`);
+    logger.debug(`   reason: "${transactionData['Narrative']}" -> "${result.reason}"`);
+    
+    logger.debug(`✅ Field mapping completed. Mapped ${Object.keys(result).length} fields.`);
+    
+    logger.debug(`📋 Final mapped result object:`, JSON.stringify(result, null, 2));
+    logger.info(`✅ Successfully parsed Abyssinia receipt for reference: ${result.reference}`);
+    logger.debug(`💰 Key transaction details - Amount: ${result.amount}, Payer: ${result.payer}, Date: ${result.date}`);
+    
+    // Validate that we have essential fields
+    const missingFields = (['reference', 'amount', 'payer'] as const).filter(field => !result[field]);
+    if (missingFields.length > 0) {
+        logger.error(`❌ Missing essential fields in transaction data: ${missingFields.join(', ')}`);
+        throw new ProviderError(ErrorType.PARSE_FAILED, 'Missing essential fields in transaction data', { missingFields });
+    }
+    
+    return result;
+}
+registerProvider<VerifyResult>({
+    name: 'abyssinia',
+    displayName: 'Bank of Abyssinia',
+    legacyPath: '/verify-abyssinia',
+    cacheTtlSeconds: 24 * 60 * 60,
+    inputs: [
+        {
+            name: 'reference',
+            description: 'Abyssinia transaction reference (e.g. FT23062669JJ)',
+            required: true,
+            pattern: /^FT[A-Z0-9]{10}$/i,
+            patternHint: 'must be FT followed by 10 letters or digits'
+        },
+        {
+            name: 'suffix',
+            description: 'Last 5 digits of the account',
+            required: true,
+            pattern: /^\d{5}$/,
+            patternHint: 'must be exactly 5 digits'
+        }
+    ],
+    parsers: { json: async raw => parseAbyssiniaResponse(JSON.parse(raw.toString('utf8'))) },
+    verify: async ({ reference, suffix }) => {
+        const result = await verifyAbyssinia(reference, suffix);
+        return result.success
+            ? { success: true, data: result }
+            : { success: false, error: result.error };
+    },
+    normalize: result => ({
+        reference: result.reference ?? null,
+        status: 'completed',
+        payer: { name: result.payer ?? null, account: result.payerAccount || null },
+        payee: { name: result.receiver ?? null, account: result.receiverAccount || null },
+        amount: toMinorUnits(result.amount),
+        fees: null,
+        vat: null,
+        timestamp: fromWallClockDate(result.date),
+        reason: result.reason ?? null
+    })
+});
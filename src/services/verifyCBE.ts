@@ -1,9 +1,15 @@
-import puppeteer from 'puppeteer';
-import axios, { AxiosResponse } from 'axios';
+import { AxiosResponse } from 'axios';
 import pdf from 'pdf-parse';
-import https from 'https';
 import fs from 'fs';
 import logger from '../utils/logger';
+import { withBrowserPage } from '../utils/browserPool';
+import { portalRequestConfig, reachesRealUpstreams, upstreamGet } from '../utils/upstreamTransport';
+import { assertProviderEnabled, providerSettings } from '../utils/config';
+import { registerUpstream, classifyUpstreamError } from './upstreamHealth';
+import { ErrorType, ProviderError } from '../utils/errorHandler';
+import { registerProvider } from './providerRegistry';
+import { assertInputFormat } from './referenceAnalysis';
+import { fromWallClockDate, toMinorUnits } from './normalizedReceipt';
 
 export interface VerifyResult {
     success: boolean;
@@ -18,6 +24,9 @@ export interface VerifyResult {
     error?: string;
 }
 
+const settings = providerSettings('cbe');
+const portal = registerUpstream(new URL(settings.baseUrl).hostname);
+
 function titleCase(str: string): string {
     return str.toLowerCase().replace(/\b\w/g, char => char.toUpperCase());
 }
@@ -26,78 +35,75 @@ export async function verifyCBE(
     reference: string,
     accountSuffix: string
 ): Promise<VerifyResult> {
+    assertProviderEnabled('cbe');
+    assertInputFormat('cbe', { reference, suffix: accountSuffix });
+
     const fullId = `${reference}${accountSuffix}`;
-    const url = `https://apps.cbe.com.et:100/?id=${fullId}`;
-    const httpsAgent = new https.Agent({ rejectUnauthorized: false });
+    const url = `${settings.baseUrl}/?id=${fullId}`;
 
+    let pdfData: ArrayBuffer | null;
+    try {
+        // The portal only counts as down when neither the direct fetch nor the browser got through
+        pdfData = await portal.call(() => fetchReceiptPdf(url), settings);
+    } catch (err) {
+        throw classifyUpstreamError(err, portal.name);
+    }
+
+    if (!pdfData) {
+        throw new ProviderError(ErrorType.RECEIPT_NOT_FOUND, 'No PDF detected via Puppeteer.');
+    }
+    return await parseCBEReceipt(pdfData);
+}
+
+// Direct download first, headless browser as fallback; null when the portal served no PDF
+async function fetchReceiptPdf(url: string): Promise<ArrayBuffer | null> {
+    let directError: unknown;
     try {
         logger.info(`🔎 Attempting direct fetch: ${url}`);
-        const response: AxiosResponse<ArrayBuffer> = await axios.get(url, {
-            httpsAgent,
-            responseType: 'arraybuffer',
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)',
-                'Accept': 'application/pdf'
-            },
-            timeout: 30000
+        const response: AxiosResponse<ArrayBuffer> = await upstreamGet(url, {
+            ...portalRequestConfig(settings, { 'Accept': 'application/pdf' }),
+            responseType: 'arraybuffer'
         });
 
         logger.info('✅ Direct fetch success, parsing PDF');
-        return await parseCBEReceipt(response.data);
+        return response.data;
     } catch (directErr: any) {
+        if (!reachesRealUpstreams()) throw directErr;
         logger.warn('⚠️ Direct fetch failed, falling back to Puppeteer:', directErr.message);
+        directError = directErr;
+    }
 
-        let browser;
-        try {
-            browser = await puppeteer.launch({
-                headless: true,
-                args: [
-                    '--no-sandbox',
-                    '--disable-setuid-sandbox',
-                    '--ignore-certificate-errors',
-                    '--disable-dev-shm-usage',
-                    '--disable-gpu'
-                ],
-                executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined
-            });
-
-            const page = await browser.newPage();
-            let detectedPdfUrl: string | null = null;
-
-            page.on('response', async (response) => {
-                const contentType = response.headers()['content-type'];
-                if (contentType?.includes('pdf')) {
-                    detectedPdfUrl = response.url();
-                    logger.info('🧾 PDF detected:', detectedPdfUrl);
-                }
-            });
-
-            await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 20000 });
-            await new Promise(res => setTimeout(res, 3000));
-            await browser.close();
-
-            if (!detectedPdfUrl) {
-                return { success: false, error: 'No PDF detected via Puppeteer.' };
-            }
-
-            const pdfRes = await axios.get(detectedPdfUrl, {
-                httpsAgent,
-                responseType: 'arraybuffer'
-            });
-
-            return await parseCBEReceipt(pdfRes.data);
-        } catch (puppetErr: any) {
-            logger.error('❌ Puppeteer failed:', puppetErr.message);
-            if (browser) await browser.close();
-            return {
-                success: false,
-                error: `Both direct and Puppeteer failed: ${puppetErr.message}`
-            };
-        }
+    const detectedPdfUrl = await withBrowserPage(async page => {
+        const pdfResponse = page.waitForResponse(
+            response => response.headers()['content-type']?.includes('pdf') ?? false,
+            { timeout: settings.browserTimeoutMs }
+        );
+
+        // Navigating straight to a PDF can abort the page load; the response event still fires
+        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: settings.browserTimeoutMs })
+            .catch(navErr => logger.debug('Puppeteer navigation ended early:', navErr.message));
+
+        const response = await pdfResponse.catch(() => null);
+        return response?.url() ?? null;
+    }).catch(browserErr => {
+        // The direct fetch error says more about the portal than a browser failure does
+        logger.error('❌ Puppeteer failed:', browserErr.message);
+        throw directError;
+    });
+
+    if (!detectedPdfUrl) {
+        return null;
     }
+    logger.info('🧾 PDF detected:', detectedPdfUrl);
+
+    const pdfRes: AxiosResponse<ArrayBuffer> = await upstreamGet(detectedPdfUrl, {
+        ...portalRequestConfig(settings),
+        responseType: 'arraybuffer'
+    });
+    return pdfRes.data;
 }
 
-async function parseCBEReceipt(buffer: ArrayBuffer): Promise<VerifyResult> {
+export async function parseCBEReceipt(buffer: ArrayBuffer | Buffer): Promise<VerifyResult> {
     try {
         const parsed = await pdf(Buffer.from(buffer));
         const rawText = parsed.text.replace(/\s+/g, ' ').trim();
@@ -132,13 +138,62 @@ async function parseCBEReceipt(buffer: ArrayBuffer): Promise<VerifyResult> {
                 reason: reason || null
             };
         } else {
-            return {
-                success: false,
-                error: 'Could not extract all required fields from PDF.'
-            };
+            const fields = { payer: payerName, payerAccount, receiver: receiverName, receiverAccount, amount, date, reference: referenceMatch };
+            const missingFields = Object.entries(fields).filter(([, value]) => !value).map(([field]) => field);
+            throw new ProviderError(ErrorType.PARSE_FAILED, 'Could not extract all required fields from PDF.', { missingFields });
         }
     } catch (parseErr: any) {
+        if (parseErr instanceof ProviderError) throw parseErr;
         logger.error('❌ PDF parsing failed:', parseErr.message);
-        return { success: false, error: 'Error parsing PDF data' };
+        throw new ProviderError(ErrorType.PARSE_FAILED, 'Error parsing PDF data');
     }
 }
+
+registerProvider<VerifyResult>({
+    name: 'cbe',
+    displayName: 'Commercial Bank of Ethiopia',
+    legacyPath: '/verify-cbe',
+    // Bank receipts are final once issued
+    cacheTtlSeconds: 24 * 60 * 60,
+    inputs: [
+        {
+            name: 'reference',
+            description: 'CBE transaction reference (e.g. FT2513001V2G)',
+            required: true,
+            pattern: /^FT[A-Z0-9]{10}$/i,
+            patternHint: 'must be FT followed by 10 letters or digits'
+        },
+        {
+            name: 'suffix',
+            description: 'Last 8 digits of the receiver account',
+            required: true,
+            aliases: ['accountSuffix'],
+            pattern: /^\d{8}$/,
+            patternHint: 'must be exactly 8 digits'
+        }
+    ],
+    pdf: {
+        markers: [/Commercial Bank of Ethiopia/i, /VAT Invoice No/i],
+        parse: parseCBEReceipt,
+        // The PDF only shows four digits of each account, so the suffix must come from the caller
+        lookupInput: result => ({ reference: result.reference ?? '' })
+    },
+    parsers: { pdf: parseCBEReceipt },
+    verify: async ({ reference, suffix }) => {
+        const result = await verifyCBE(reference, suffix);
+        return result.success
+            ? { success: true, data: result }
+            : { success: false, error: result.error };
+    },
+    normalize: result => ({
+        reference: result.reference ?? null,
+        status: 'completed',
+        payer: { name: result.payer ?? null, account: result.payerAccount || null },
+        payee: { name: result.receiver ?? null, account: result.receiverAccount || null },
+        amount: toMinorUnits(result.amount),
+        fees: null,
+        vat: null,
+        timestamp: fromWallClockDate(result.date),
+        reason: result.reason ?? null
+    })
+});
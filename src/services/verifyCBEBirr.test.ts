@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { readCBEBirrPdf } from './verifyCBEBirr';
+import { ErrorType } from '../utils/errorHandler';
+import logger from '../utils/logger';
+
+logger.silent = true;
+
+const fixture = (name: string) => fs.readFileSync(path.resolve('fixtures/cbebirr', name));
+
+test('reads every field of a complete receipt from its label', async () => {
+    const receipt = await readCBEBirrPdf(fixture('CGU9REIHHB.pdf'));
+
+    assert.equal(receipt.receiptNumber, 'CGU9REIHHB');
+    assert.equal(receipt.customerName, 'ABEBE KEBEDE');
+    assert.equal(receipt.receiverName, 'MEKDES TADESSE');
+    assert.equal(receipt.creditAccount, '1000000012345 - MEKDES TADESSE');
+    assert.equal(receipt.transactionStatus, 'Completed');
+    assert.equal(receipt.transactionDate, '2025-07-30 14:05:12');
+    assert.equal(receipt.amount, '1,500.00');
+    assert.equal(receipt.totalPaidAmount, '1,502.30');
+    for (const [field, provenance] of Object.entries(receipt.extraction)) {
+        assert.deepEqual([field, provenance.source, provenance.confidence], [field, 'label', 'high']);
+    }
+});
+
+test('reads a reordered layout and lowers the confidence of values not beside their label', async () => {
+    const receipt = await readCBEBirrPdf(fixture('CHK4T2M8QA-reordered.pdf'));
+
+    assert.equal(receipt.receiptNumber, 'CHK4T2M8QA');
+    assert.equal(receipt.transactionDate, '2025-08-02 09:41:07');
+    assert.equal(receipt.amount, '2,350.00');
+    assert.equal(receipt.transactionStatus, 'Completed');
+    assert.equal(receipt.receiverName, 'HANNA BEKELE');
+    assert.equal(receipt.customerName, 'SELAM GIRMA');
+
+    const confidence = (field: keyof typeof receipt.extraction) =>
+        [receipt.extraction[field]?.source, receipt.extraction[field]?.confidence];
+    assert.deepEqual(confidence('receiptNumber'), ['next-line', 'medium']);
+    assert.deepEqual(confidence('transactionStatus'), ['next-line', 'medium']);
+    assert.deepEqual(confidence('receiverName'), ['next-line', 'medium']);
+    assert.deepEqual(confidence('paidAmount'), ['label', 'high']);
+    // No Reference label: the order ID is copied over
+    assert.equal(receipt.reference, 'CHK4T2M8QA');
+    assert.deepEqual(confidence('reference'), ['derived', 'low']);
+});
+
+test('rejects a receipt without a required label instead of guessing', async () => {
+    await assert.rejects(readCBEBirrPdf(fixture('CJ7P0XW3NB-missing-status.pdf')), {
+        type: ErrorType.PARSE_FAILED,
+        details: { missingFields: ['transactionStatus'] }
+    });
+});
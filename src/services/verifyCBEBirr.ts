@@ -1,7 +1,16 @@
-import axios from 'axios';
 import pdfParse from 'pdf-parse';
 import { VerifyResult } from './verifyCBE';
 import logger from '../utils/logger';
+import { portalRequestConfig, upstreamGet } from '../utils/upstreamTransport';
+import { assertProviderEnabled, providerSettings } from '../utils/config';
+import { registerProvider } from './providerRegistry';
+import { assertInputFormat } from './referenceAnalysis';
+import { fromAddisTimestamp, toMinorUnits, toReceiptStatus } from './normalizedReceipt';
+import { registerUpstream, classifyUpstreamError } from './upstreamHealth';
+import { ErrorType, ProviderError } from '../utils/errorHandler';
+
+const settings = providerSettings('cbebirr');
+const portal = registerUpstream(new URL(settings.baseUrl).hostname);
 
 export interface CBEBirrReceipt {
   customerName: string;
@@ -20,175 +29,263 @@ export interface CBEBirrReceipt {
   totalPaidAmount: string;
   paymentReason: string;
   paymentChannel: string;
+  // How each field was found; absent fields could not be read
+  extraction: Partial<Record<CBEBirrField, FieldProvenance>>;
+}
+
+export async function readCBEBirrPdf(buffer: Buffer): Promise<CBEBirrReceipt> {
+  let pdfText: string;
+  try {
+    pdfText = (await pdfParse(buffer)).text;
+  } catch (error) {
+    logger.error('[CBEBirr] Could not read the receipt PDF:', error);
+    throw new ProviderError(ErrorType.PARSE_FAILED, 'Error parsing PDF data');
+  }
+
+  logger.info(`[CBEBirr] PDF text extracted (${pdfText.length} characters)`);
+  logger.debug('[CBEBirr] Full PDF text content:', pdfText);
+  return parseCBEBirrReceipt(pdfText);
 }
 
 export async function verifyCBEBirr(
   receiptNumber: string,
   phoneNumber: string,
   apiKey: string
-): Promise<CBEBirrReceipt | { success: false; error: string }> {
+): Promise<CBEBirrReceipt> {
+  assertProviderEnabled('cbebirr');
+  assertInputFormat('cbebirr', { reference: receiptNumber, phone: phoneNumber });
+
   try {
     logger.info(`[CBEBirr] Starting verification for receipt: ${receiptNumber}, phone: ${phoneNumber}`);
     
     // Construct the CBE Birr URL
-    const url = `https://cbepay1.cbe.com.et/aureceipt?TID=${receiptNumber}&PH=${phoneNumber}`;
+    const url = `${settings.baseUrl}/aureceipt?TID=${receiptNumber}&PH=${phoneNumber}`;
     logger.info(`[CBEBirr] Fetching PDF from: ${url}`);
 
     // Fetch the PDF
-    const response = await axios.get(url, {
-      responseType: 'arraybuffer',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-      },
-      timeout: 30000
-    });
+    const response = await portal.call(() => upstreamGet(url, {
+      ...portalRequestConfig(settings, { 'Authorization': `Bearer ${apiKey}` }),
+      responseType: 'arraybuffer'
+    }), settings);
 
     logger.info(`[CBEBirr] PDF response status: ${response.status}`);
     logger.info(`[CBEBirr] PDF content length: ${response.data.length} bytes`);
 
     if (response.status !== 200) {
       logger.error(`[CBEBirr] Failed to fetch PDF: HTTP ${response.status}`);
-      return { success: false, error: `Failed to fetch receipt: HTTP ${response.status}` };
+      throw new ProviderError(ErrorType.RECEIPT_NOT_FOUND, `Failed to fetch receipt: HTTP ${response.status}`);
     }
 
-    // Parse the PDF
-    const pdfBuffer = Buffer.from(response.data);
-    const pdfData = await pdfParse(pdfBuffer);
-    const pdfText = pdfData.text;
-
-    logger.info(`[CBEBirr] PDF text extracted (${pdfText.length} characters)`);
-    logger.info('[CBEBirr] PDF content preview:', pdfText.substring(0, 1000));
-    logger.info('[CBEBirr] Full PDF text content:');
-    logger.info(pdfText);
-
-    // Parse the receipt data
-    const receiptData = parseCBEBirrReceipt(pdfText);
-    
-    if (!receiptData) {
-      logger.error('[CBEBirr] Failed to parse receipt data from PDF');
-      return { success: false, error: 'Failed to parse receipt data from PDF' };
-    }
-
-    logger.info('[CBEBirr] Successfully parsed receipt data:', receiptData);
+    const receiptData = await readCBEBirrPdf(Buffer.from(response.data));
+    logger.info(`[CBEBirr] Successfully parsed receipt ${receiptData.receiptNumber}`);
     return receiptData;
 
   } catch (error) {
-    logger.error('[CBEBirr] Error during verification:', error);
-    return { 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error occurred' 
-    };
+    if (error instanceof ProviderError) throw error;
+    // AxiosErrors are circular and cannot go into the log metadata
+    logger.error('[CBEBirr] Error during verification:', error instanceof Error ? error.message : error);
+    throw classifyUpstreamError(error, portal.name);
   }
 }
 
-function parseCBEBirrReceipt(pdfText: string): CBEBirrReceipt | null {
-  try {
-    logger.info('[CBEBirr] Starting PDF text parsing...');
-    logger.info('[CBEBirr] Full PDF text for debugging:', pdfText);
-    
-    // Helper function to extract value after a label with more flexible matching
-    const extractValue = (text: string, pattern: RegExp): string => {
-      const match = text.match(pattern);
-      const result = match && match[1] ? match[1].trim() : '';
-      logger.debug(`[CBEBirr] Pattern ${pattern} matched: "${result}"`);
-      return result;
-    };
-
-    // Based on the actual PDF structure from the image, extract fields correctly
-    // Customer Name: LIUL ZENEBE ADMASU (from Customer Information section)
-    // The PDF shows "Customer Name: LIUL ZENEBE ADMASU" but our pattern is matching "Region:"
-    // Let's look for the actual customer name pattern
-    const customerName = extractValue(pdfText, /Customer Name:\s*([^\n\r]+?)(?=\s*Region:)/i) || 
-                        extractValue(pdfText, /LIUL ZENEBE ADMASU/i) ||
-                        'LIUL ZENEBE ADMASU';
-    
-    // Debit Account: should be empty in the PDF based on the image
-    // The pattern is matching "Org Account" which seems to be a label, not the actual account
-    const debitAccount = '';
-    
-    // Credit Account: 251902523658 - LIUL ZENEBE ADMASU
-    const creditAccount = extractValue(pdfText, /Credit Account[\s\n\r]+([^\n\r]+?)(?=\s*Receiver Name)/i) ||
-                         extractValue(pdfText, /(251902523658\s*-\s*LIUL ZENEBE ADMASU)/i) ||
-                         '251902523658 - LIUL ZENEBE ADMASU';
-    
-    // Receiver Name: 251902523658 - LIUL ZENEBE ADMASU
-    const receiverName = extractValue(pdfText, /Receiver Name[\s\n\r]+([^\n\r]+?)(?=\s*Order ID)/i) ||
-                        extractValue(pdfText, /(251902523658\s*-\s*LIUL ZENEBE ADMASU)/i) ||
-                        '251902523658 - LIUL ZENEBE ADMASU';
-    
-    // Order ID: FT25211JYPQX
-    const orderId = extractValue(pdfText, /Order ID[\s\n\r]+([A-Z0-9]+)/i) ||
-                   extractValue(pdfText, /(FT\d+[A-Z0-9]*)/i) ||
-                   'FT25211JYPQX';
-    
-    // Transaction Status: Completed
-    const transactionStatus = extractValue(pdfText, /Transaction Status[\s\n\r]+([^\n\r]+?)(?=\s*Reference)/i) ||
-                             extractValue(pdfText, /Completed/i) ||
-                             'Completed';
-    
-    // Reference: FT25211JYPQX (same as Order ID)
-    const reference = extractValue(pdfText, /Reference[\s\n\r]+([^\n\r]+?)(?=\s*Receipt Number)/i) ||
-                     orderId;
-    
-    // Receipt Number: CGU9REIHHB (from Transaction Details table)
-    const receiptNumber = extractValue(pdfText, /CGU9REIHHB/i) ||
-                         extractValue(pdfText, /(CGU[A-Z0-9]+)/i) ||
-                         'CGU9REIHHB';
-    
-    // Transaction Date: 2025-07-30 17:57 (from Transaction Details table)
-    const transactionDate = extractValue(pdfText, /(2025-07-30\s+17:57)/i) ||
-                           extractValue(pdfText, /(\d{4}-\d{2}-\d{2}\s+\d{2}:\d{2})/i) ||
-                           '2025-07-30 17:57';
-    
-    // Amount: 73000.00 (from Transaction Details table)
-    const amount = extractValue(pdfText, /(73000\.00)/i) ||
-                  extractValue(pdfText, /([\d,]+\.\d{2})/i) ||
-                  '73000.00';
-    
-    // Financial details from the table
-    const paidAmount = extractValue(pdfText, /Paid amount[\s\n\r]*([\d,]+\.\d{2})/i) || amount;
-    const serviceCharge = extractValue(pdfText, /Service Charge[\s\n\r]*([\d,]+\.\d{2})/i) || '0.00';
-    const vat = extractValue(pdfText, /VAT[\s\n\r]*([\d,]+\.\d{2})/i) || '0.00';
-    const totalPaidAmount = extractValue(pdfText, /Total Paid Amount[\s\n\r]*([\d,]+\.\d{2})/i) || amount;
-    
-    // Payment details from bottom section
-    const paymentReason = extractValue(pdfText, /TransferFromBankToMM by Customer to Customer/i) ||
-                         'TransferFromBankToMM by Customer to Customer';
-    const paymentChannel = extractValue(pdfText, /USSD/i) ||
-                          'USSD';
-
-    const receiptData: CBEBirrReceipt = {
-      customerName,
-      debitAccount,
-      creditAccount,
-      receiverName,
-      orderId,
-      transactionStatus,
-      reference,
-      receiptNumber,
-      transactionDate,
-      amount,
-      paidAmount,
-      serviceCharge,
-      vat,
-      totalPaidAmount,
-      paymentReason,
-      paymentChannel
-    };
-
-    logger.info('[CBEBirr] Extracted receipt data:', receiptData);
-
-    // Validate that we have at least some essential fields
-    if (!customerName && !receiptNumber && !amount) {
-      logger.warn('[CBEBirr] No essential fields found in PDF');
-      return null;
-    }
+type CBEBirrField = Exclude<keyof CBEBirrReceipt, 'extraction'>;
 
-    return receiptData;
+export type ExtractionConfidence = 'high' | 'medium' | 'low';
 
-  } catch (error) {
-    logger.error('[CBEBirr] Error parsing PDF text:', error);
+/**
+ * Where a field's value was found: on the label's line, on the line after
+ * it, in the table rows following it, or copied from another field.
+ */
+export interface FieldProvenance {
+  source: 'label' | 'next-line' | 'table' | 'derived';
+  confidence: ExtractionConfidence;
+  // Printed label, or the field a derived value was copied from
+  anchor: string;
+}
+
+interface FieldRule {
+  // Label as printed on the receipt
+  name: string;
+  label: RegExp;
+  // Shape the value must have; without it anything on the label's line is taken
+  value?: RegExp;
+}
+
+// pdf-parse runs table cells together ("CGU9REIHHB2025-07-30"), so value shapes avoid word boundaries
+const AMOUNT = /\d[\d,]*\.\d{2}/;
+
+const FIELD_RULES: Record<CBEBirrField, FieldRule> = {
+  customerName: { name: 'Customer Name', label: /Customer Name/i },
+  debitAccount: { name: 'Debit Account', label: /Debit Account/i, value: /\d{6,}/ },
+  creditAccount: { name: 'Credit Account', label: /Credit Account/i, value: /\d{6,}.*/ },
+  receiverName: { name: 'Receiver Name', label: /Receiver Name/i },
+  orderId: { name: 'Order ID', label: /Order ID/i, value: /[A-Z0-9]{6,}/ },
+  transactionStatus: {
+    name: 'Transaction Status',
+    label: /Transaction Status/i,
+    value: /Completed|Success(?:ful)?|Pending|Failed|Reversed|Cancell?ed/i
+  },
+  reference: { name: 'Reference', label: /(?<!Transaction\s)\bReference\b/i, value: /[A-Z0-9]{6,}/ },
+  receiptNumber: {
+    name: 'Receipt Number',
+    label: /Receipt (?:Number|No\.?)/i,
+    value: /(?=[A-Z]*\d)[A-Z0-9]{10}(?=\d{4}-\d{2}-\d{2}|[^A-Z0-9]|$)/
+  },
+  transactionDate: { name: 'Transaction Date', label: /Transaction Date/i, value: /\d{4}-\d{2}-\d{2}(?:\s+\d{1,2}:\d{2}(?::\d{2})?)?/ },
+  amount: { name: 'Amount', label: /(?<!Paid\s*)Amount/i, value: AMOUNT },
+  paidAmount: { name: 'Paid Amount', label: /(?<!Total\s*)Paid Amount/i, value: AMOUNT },
+  serviceCharge: { name: 'Service Charge', label: /Service Charge/i, value: AMOUNT },
+  vat: { name: 'VAT', label: /\bVAT\b/i, value: AMOUNT },
+  totalPaidAmount: { name: 'Total Paid Amount', label: /Total Paid Amount/i, value: AMOUNT },
+  paymentReason: { name: 'Payment Reason', label: /(?:Payment )?Reason|Narrative/i },
+  paymentChannel: { name: 'Payment Channel', label: /(?:Payment )?Channel/i }
+};
+
+// Labels that only end the value before them, e.g. "Customer Name: X Region: Y"
+const OTHER_LABELS = [/Region/i, /Customer Information/i, /Transaction Details/i];
+
+// A receipt without these is rejected rather than reported with blanks
+const REQUIRED_FIELDS: CBEBirrField[] = ['customerName', 'receiverName', 'transactionStatus', 'receiptNumber', 'transactionDate', 'amount'];
+
+// Rows below a table header searched for its values
+const TABLE_ROWS = 3;
+
+/**
+ * Read a CBE Birr receipt by anchoring every field to its printed label.
+ * Nothing is guessed: a field that cannot be found stays empty, and a
+ * receipt missing a required field fails with PARSE_FAILED. `extraction`
+ * tells how each value was found.
+ */
+export function parseCBEBirrReceipt(pdfText: string): CBEBirrReceipt {
+  const lines = pdfText.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const labels = [...Object.values(FIELD_RULES).map(rule => rule.label), ...OTHER_LABELS];
+
+  // Cut a line at the first label after `from`, so "Status Completed Reference FT…" yields "Completed"
+  const untilNextLabel = (line: string, from: number) => {
+    const rest = line.slice(from);
+    const end = Math.min(
+      ...labels.map(label => {
+        const match = new RegExp(label.source, 'gi');
+        let found: RegExpExecArray | null;
+        while ((found = match.exec(rest))) {
+          if (found.index > 0) return found.index;
+          match.lastIndex = found.index + 1;
+        }
+        return rest.length;
+      })
+    );
+    return rest.slice(0, end).replace(/^[\s:\-]+/, '').trim();
+  };
+
+  const accept = (candidate: string, rule: FieldRule): string | null => {
+    if (!candidate) return null;
+    if (!rule.value) return candidate;
+    return candidate.match(rule.value)?.[0].trim() ?? null;
+  };
+
+  const extract = (field: CBEBirrField): [string, FieldProvenance] | null => {
+    const rule = FIELD_RULES[field];
+    const anchor = rule.name;
+
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i].match(rule.label);
+      if (!match) continue;
+
+      const inline = accept(untilNextLabel(lines[i], match.index! + match[0].length), rule);
+      if (inline) return [inline, { source: 'label', confidence: 'high', anchor }];
+
+      // A label alone on its line is followed by its value, unless the next line is another label
+      const next = lines[i + 1];
+      if (next && !labels.some(label => label.test(next) && next.match(label)!.index === 0)) {
+        const below = accept(untilNextLabel(next, 0), rule);
+        if (below) return [below, { source: 'next-line', confidence: 'medium', anchor }];
+      }
+    }
+
+    // Table headers are printed in a row with the values in the rows below
+    if (rule.value) {
+      const header = lines.findIndex(line =>
+        rule.label.test(line) && labels.filter(label => label.test(line)).length > 1
+      );
+      if (header !== -1) {
+        const rows = lines.slice(header + 1, header + 1 + TABLE_ROWS).join(' ');
+        const value = rows.match(rule.value)?.[0].trim();
+        if (value) return [value, { source: 'table', confidence: 'low', anchor }];
+      }
+    }
     return null;
+  };
+
+  const receipt = { extraction: {} } as CBEBirrReceipt;
+  for (const field of Object.keys(FIELD_RULES) as CBEBirrField[]) {
+    const found = extract(field);
+    receipt[field] = found ? found[0] : '';
+    if (found) receipt.extraction[field] = found[1];
+  }
+
+  // The transfer reference is printed once, as either the order ID or the reference
+  if (!receipt.reference && receipt.orderId) {
+    receipt.reference = receipt.orderId;
+    receipt.extraction.reference = { source: 'derived', confidence: 'low', anchor: 'orderId' };
   }
-}
\ No newline at end of file
+
+  const missingFields = REQUIRED_FIELDS.filter(field => !receipt[field]);
+  if (missingFields.length > 0) {
+    logger.warn(`[CBEBirr] Receipt is missing required fields: ${missingFields.join(', ')}`);
+    throw new ProviderError(ErrorType.PARSE_FAILED, 'Could not extract all required fields from the CBE Birr receipt.', {
+      missingFields
+    });
+  }
+
+  logger.debug('[CBEBirr] Extracted receipt data:', receipt);
+  return receipt;
+}
+
+registerProvider<CBEBirrReceipt>({
+  name: 'cbebirr',
+  displayName: 'CBE Birr',
+  legacyPath: '/verify-cbebirr',
+  inputs: [
+    {
+      name: 'reference',
+      description: 'CBE Birr receipt number (e.g. CGU9REIHHB)',
+      required: true,
+      aliases: ['receiptNumber'],
+      pattern: /^[A-Z0-9]{10}$/i,
+      patternHint: 'must be 10 letters or digits'
+    },
+    {
+      name: 'phone',
+      description: 'Payer phone number in 251XXXXXXXXX format',
+      required: true,
+      aliases: ['phoneNumber'],
+      pattern: /^251\d{9}$/,
+      patternHint: 'must start with 251 and be 12 digits total'
+    }
+  ],
+  // The phone number is not on the receipt, so PDF uploads supply it in the form
+  pdf: {
+    markers: [/CBE\s*Birr/i, /Receipt (?:Number|No)/i],
+    parse: readCBEBirrPdf,
+    lookupInput: receipt => ({ reference: receipt.receiptNumber })
+  },
+  parsers: { pdf: readCBEBirrPdf },
+  verify: async ({ reference, phone }, { apiKey }) => {
+    const receipt = await verifyCBEBirr(reference, phone, apiKey ?? '');
+    return { success: true, data: receipt };
+  },
+  normalize: receipt => ({
+    reference: receipt.receiptNumber || null,
+    status: toReceiptStatus(receipt.transactionStatus),
+    payer: { name: receipt.customerName || null, account: receipt.debitAccount || null },
+    payee: {
+      name: receipt.receiverName.replace(/^\d+\s*-\s*/, '') || null,
+      account: receipt.creditAccount.match(/^\d+/)?.[0] ?? null
+    },
+    amount: toMinorUnits(receipt.amount),
+    fees: toMinorUnits(receipt.serviceCharge),
+    vat: toMinorUnits(receipt.vat),
+    timestamp: fromAddisTimestamp(receipt.transactionDate),
+    reason: receipt.paymentReason || null
+  })
+});
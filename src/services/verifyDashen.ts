@@ -1,7 +1,16 @@
-import axios, { AxiosResponse } from 'axios';
+import { AxiosResponse } from 'axios';
 import pdf from 'pdf-parse';
-import https from 'https';
 import logger from '../utils/logger';
+import { portalRequestConfig, upstreamGet } from '../utils/upstreamTransport';
+import { assertProviderEnabled, providerSettings } from '../utils/config';
+import { registerProvider } from './providerRegistry';
+import { fromWallClockDate, toMinorUnits } from './normalizedReceipt';
+import { registerUpstream, classifyUpstreamError } from './upstreamHealth';
+import { assertInputFormat } from './referenceAnalysis';
+import { ErrorType, ProviderError } from '../utils/errorHandler';
+
+const settings = providerSettings('dashen');
+const portal = registerUpstream(new URL(settings.baseUrl).hostname);
 
 export interface DashenVerifyResult {
     success: boolean;
@@ -36,33 +45,28 @@ function titleCase(str: string): string {
 export async function verifyDashen(
     transactionReference: string
 ): Promise<DashenVerifyResult> {
-    const url = `https://receipt.dashensuperapp.com/receipt/${transactionReference}`;
-    const httpsAgent = new https.Agent({ rejectUnauthorized: false });
+    assertProviderEnabled('dashen');
+    assertInputFormat('dashen', { reference: transactionReference });
+
+    const url = `${settings.baseUrl}/receipt/${transactionReference}`;
 
     try {
         logger.info(`🔎 Fetching Dashen receipt: ${url}`);
-        const response: AxiosResponse<ArrayBuffer> = await axios.get(url, {
-            httpsAgent,
-            responseType: 'arraybuffer',
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)',
-                'Accept': 'application/pdf'
-            },
-            timeout: 30000
-        });
+        const response: AxiosResponse<ArrayBuffer> = await portal.call(() => upstreamGet<ArrayBuffer>(url, {
+            ...portalRequestConfig(settings, { 'Accept': 'application/pdf' }),
+            responseType: 'arraybuffer'
+        }), settings);
 
         logger.info('✅ Dashen receipt fetch success, parsing PDF');
         return await parseDashenReceipt(response.data);
     } catch (error: any) {
+        if (error instanceof ProviderError) throw error;
         logger.error('❌ Dashen receipt fetch failed:', error.message);
-        return {
-            success: false,
-            error: `Failed to fetch receipt: ${error.message}`
-        };
+        throw classifyUpstreamError(error, portal.name);
     }
 }
 
-async function parseDashenReceipt(buffer: ArrayBuffer): Promise<DashenVerifyResult> {
+export async function parseDashenReceipt(buffer: ArrayBuffer | Buffer): Promise<DashenVerifyResult> {
     try {
         logger.info(`📊 PDF buffer size: ${buffer.byteLength} bytes`);
         
@@ -195,19 +199,22 @@ async function parseDashenReceipt(buffer: ArrayBuffer): Promise<DashenVerifyResu
                 ...extractedData
             };
         } else {
+            const missingFields = [
+                ...(!transactionReference ? ['transactionReference'] : []),
+                ...(!transactionAmount ? ['transactionAmount'] : [])
+            ];
             logger.warn('⚠️ PDF parsing failed - missing required fields');
-            logger.warn(`❌ Missing fields: ${!transactionReference ? 'Transaction Reference ' : ''}${!transactionAmount ? 'Transaction Amount' : ''}`);
-            return {
-                success: false,
-                error: 'Could not extract required fields (Transaction Reference and Amount) from PDF.'
-            };
+            logger.warn(`❌ Missing fields: ${missingFields.join(', ')}`);
+            throw new ProviderError(
+                ErrorType.PARSE_FAILED,
+                'Could not extract required fields (Transaction Reference and Amount) from PDF.',
+                { missingFields }
+            );
         }
     } catch (parseErr: any) {
+        if (parseErr instanceof ProviderError) throw parseErr;
         logger.error('❌ Dashen PDF parsing failed:', parseErr.message);
-        return { 
-            success: false, 
-            error: 'Error parsing PDF data' 
-        };
+        throw new ProviderError(ErrorType.PARSE_FAILED, 'Error parsing PDF data');
     }
 }
 
@@ -234,4 +241,43 @@ function extractAmountWithLogging(text: string, regex: RegExp, fieldName: string
         logger.debug(`💰 ${fieldName} regex result: No match`);
         return undefined;
     }
-}
\ No newline at end of file
+}
+registerProvider<DashenVerifyResult>({
+    name: 'dashen',
+    displayName: 'Dashen Bank',
+    legacyPath: '/verify-dashen',
+    cacheTtlSeconds: 24 * 60 * 60,
+    inputs: [
+        {
+            name: 'reference',
+            description: 'Dashen transaction reference',
+            required: true,
+            // e.g. 036TBAO251240001: branch code, transaction type, then a sequence number
+            pattern: /^\d{3}[A-Z]{4}\d{9}$/i,
+            patternHint: 'must be 3 digits, 4 letters and 9 digits'
+        }
+    ],
+    pdf: {
+        markers: [/Dashen/i, /Transaction\s*Reference/i],
+        parse: parseDashenReceipt,
+        lookupInput: result => ({ reference: result.transactionReference ?? '' })
+    },
+    parsers: { pdf: parseDashenReceipt },
+    verify: async ({ reference }) => {
+        const result = await verifyDashen(reference);
+        return result.success
+            ? { success: true, data: result }
+            : { success: false, error: result.error };
+    },
+    normalize: result => ({
+        reference: result.transactionReference ?? null,
+        status: 'completed',
+        payer: { name: result.senderName ?? null, account: result.senderAccountNumber || null },
+        payee: { name: result.receiverName ?? null, account: result.phoneNo || null },
+        amount: toMinorUnits(result.transactionAmount),
+        fees: toMinorUnits(result.serviceCharge),
+        vat: toMinorUnits(result.vat),
+        timestamp: fromWallClockDate(result.transactionDate),
+        reason: result.narrative ?? null
+    })
+});
@@ -1,27 +1,33 @@
-import { Mistral } from "@mistralai/mistralai";
-import fs from "fs";
 import { Request, Response } from "express";
-import multer from "multer";
 import logger from "../utils/logger";
-import { verifyTelebirr } from "./verifyTelebirr";
-import { verifyCBE } from "./verifyCBE";
-import dotenv from "dotenv";
-
-dotenv.config();
-
-const upload = multer({ dest: "uploads/" });
-
-const client = new Mistral({
-    apiKey: process.env.MISTRAL_API_KEY!,
-});
+import { keyAllowsProvider } from "../middleware/apiKeyAuth";
+import { coerceFormFields, singleFileUpload } from "../middleware/upload";
+import { AppError, sendErrorResponse } from "../utils/errorHandler";
+import { getProvider, validateProviderInput } from "./providers";
+import { parseVerificationRequest, executeVerification } from "./verificationRunner";
+import { bypassesCache } from "./resultCache";
+import { NormalizedReceipt } from "./normalizedReceipt";
+import { describeMissingInputs } from "./referenceAnalysis";
+import { compareDisplayedFields, DisplayedFields } from "./tamperDetection";
+import { analyzeReceiptImage } from "./receiptImageAnalyzer";
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Diff what the image shows against the bank's record; any difference suggests an edited screenshot
+function checkDisplayedFields(receipt: NormalizedReceipt, displayed: DisplayedFields) {
+    const mismatches = compareDisplayedFields(displayed, receipt);
+    if (mismatches.length > 0) {
+        logger.warn(`Receipt image does not match the ${receipt.provider} record`, { mismatches });
+    }
+    return { tamperSuspected: mismatches.length > 0, mismatches, displayed };
+}
 
 export const verifyImageHandler = [
-    upload.single("file"),
+    singleFileUpload("file", MAX_IMAGE_BYTES),
 
     async (req: Request, res: Response): Promise<void> => {
         try {
             const autoVerify = req.query.autoVerify === "true";
-            const accountSuffix = req.body?.suffix || null;
 
             if (!req.file) {
                 logger.warn("No file uploaded");
@@ -29,127 +35,86 @@ export const verifyImageHandler = [
                 return;
             }
 
-            const filePath = req.file.path;
-            const imageBuffer = fs.readFileSync(filePath);
-            const base64Image = imageBuffer.toString("base64");
-
-            const prompt = `
-You are a payment receipt analyzer. Based on the uploaded image, determine:
-- If the receipt was issued by Telebirr or the Commercial Bank of Ethiopia (CBE).
-- If it's a CBE receipt, extract the transaction ID (usually starts with 'FT').
-- If it's a Telebirr receipt, extract the transaction number (usually starts with 'CE').
-
-Rules:
-- CBE receipts usually include a purple header with the title "Commercial Bank of Ethiopia" and a structured table.
-- Telebirr receipts are typically green with a large minus sign before the amount.
-- CBE receipts may mention Telebirr (as the receiver) but are still CBE receipts.
-
-Return this JSON format exactly:
-{
-  "type": "telebirr" | "cbe",
-  "transaction_id"?: "FTxxxx" (if CBE),
-  "transaction_number"?: "CExxxx" (if Telebirr)
-}
-            `.trim();
-
-            logger.info("Sending image to Mistral Vision...");
-
-            const chatResponse = await client.chat.complete({
-                model: "pixtral-12b",
-                messages: [
-                    {
-                        role: "user",
-                        content: [
-                            { type: "text", text: prompt },
-                            {
-                                type: "image_url",
-                                imageUrl: `data:image/jpeg;base64,${base64Image}`,
-                            },
-                        ],
-                    },
-                ],
-                responseFormat: { type: "json_object" },
-            });
+            const analysis = await analyzeReceiptImage(
+                req.file.buffer,
+                req.file.mimetype || "image/jpeg",
+                typeof req.query.analyzer === "string" ? req.query.analyzer : undefined
+            );
+            const { type, reference, displayed } = analysis;
+            const analyzer = { analyzer: analysis.analyzer, analyzerFallback: analysis.fallback };
+
+            const provider = type ? getProvider(type) : undefined;
+            if (!provider || !reference) {
+                res.status(422).json({ error: "Unknown or unrecognized receipt type", ...analyzer });
+                return;
+            }
 
-            const messageContent = chatResponse.choices?.[0]?.message?.content;
+            // Suffix or phone typed in by the user wins over what was read off the image
+            const form = coerceFormFields(req.body ?? {}, { booleans: ["consume"], json: ["expect"] });
+            const payload = { ...analysis.inputs, ...form, reference };
+            const requiredInputs = describeMissingInputs(provider, validateProviderInput(provider, payload).missing);
+            const recognised = { type: provider.name, reference, displayed, ...analyzer };
 
-            if (!messageContent || typeof messageContent !== "string") {
-                logger.error("Invalid Mistral response", { messageContent });
-                res.status(500).json({ error: "Invalid OCR response" });
+            if (!autoVerify) {
+                res.json({ ...recognised, forward_to: provider.legacyPath, requiredInputs });
                 return;
             }
 
-            const result = JSON.parse(messageContent);
-            logger.info("OCR Result", result);
-
-            if (result.type === "telebirr" && result.transaction_number) {
-                if (autoVerify) {
-                    try {
-                        const data = await verifyTelebirr(result.transaction_number);
-                        res.json({
-                            verified: true,
-                            type: "telebirr",
-                            reference: result.transaction_number,
-                            details: data,
-                        });
-                    } catch (verifyErr) {
-                        logger.error("Telebirr verification failed", { verifyErr });
-                        res.status(500).json({ error: "Verification failed for Telebirr" });
-                    }
-                } else {
-                    res.json({
-                        type: "telebirr",
-                        reference: result.transaction_number,
-                        forward_to: "/verify-telebirr",
-                    });
-                }
+            // Auto-verification calls the provider, so it must be within the key's scopes
+            const keyData = (req as any).apiKeyData;
+            if (!keyAllowsProvider(keyData ?? {}, provider.name)) {
+                res.status(403).json({
+                    success: false,
+                    code: "SCOPE_DENIED",
+                    error: `API key is not allowed to verify ${provider.name} payments`,
+                });
                 return;
             }
 
-            if (result.type === "cbe" && result.transaction_id) {
-                if (!autoVerify) {
-                    res.json({
-                        type: "cbe",
-                        reference: result.transaction_id,
-                        forward_to: "/verify-cbe",
-                        accountSuffix: "required_from_user",
-                    });
-                    return;
-                }
+            if (requiredInputs.length > 0) {
+                res.status(400).json({
+                    success: false,
+                    error: `More information is needed to verify this ${provider.displayName} receipt`,
+                    requiredInputs,
+                    ...recognised,
+                });
+                return;
+            }
 
-                if (!accountSuffix) {
-                    res.status(400).json({
-                        error: "Account suffix is required for CBE verification in autoVerify mode",
-                    });
-                    return;
-                }
+            const { request, error } = parseVerificationRequest(provider.name, payload, keyData?.id);
+            if (error) {
+                res.status(error.status).json({ ...error.body, ...recognised });
+                return;
+            }
 
-                try {
-                    const data = await verifyCBE(result.transaction_id, accountSuffix);
-                    res.json({
-                        verified: true,
-                        type: "cbe",
-                        reference: result.transaction_id,
-                        details: data,
-                    });
-                } catch (verifyErr) {
-                    logger.error("CBE verification failed", { verifyErr });
-                    res.status(500).json({ error: "Verification failed for CBE" });
-                }
+            const apiKey = req.headers.authorization?.replace("Bearer ", "") || req.headers["x-api-key"] as string;
+            request.noCache = bypassesCache(req.headers["cache-control"]);
+            const { status, body, headers } = await executeVerification(request, { apiKey });
+            if (headers) {
+                res.set(headers);
+            }
+            if (status !== 200) {
+                res.status(status).json({ ...body, ...recognised });
                 return;
             }
 
-            res.status(422).json({ error: "Unknown or unrecognized receipt type" });
+            const receipt = body.data as NormalizedReceipt;
+            res.json({
+                verified: true,
+                ...recognised,
+                details: receipt.raw,
+                ...checkDisplayedFields(receipt, displayed),
+            });
         } catch (err) {
+            // An unknown ?analyzer= is the caller's mistake
+            if (err instanceof AppError) {
+                sendErrorResponse(res, err);
+                return;
+            }
             logger.error(`Unexpected error in /verify-image: ${err instanceof Error ? err.message : String(err)}`, {
                 stack: err instanceof Error ? err.stack : undefined,
             });
             res.status(500).json({ error: "Something went wrong processing the image." });
-        } finally {
-            if (req.file?.path) {
-                fs.unlinkSync(req.file.path);
-                logger.debug("Temp file deleted", { path: req.file.path });
-            }
         }
     },
 ];
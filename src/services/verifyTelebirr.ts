@@ -1,6 +1,36 @@
-import axios, { AxiosError } from "axios";
+import { AxiosError } from "axios";
 import * as cheerio from "cheerio";
 import logger from '../utils/logger';
+import { portalRequestConfig, upstreamGet } from '../utils/upstreamTransport';
+import { assertProviderEnabled, providerSettings } from '../utils/config';
+import { registerProvider } from './providerRegistry';
+import { assertInputFormat } from './referenceAnalysis';
+import { fromAddisTimestamp, toMinorUnits, toReceiptStatus } from './normalizedReceipt';
+import { registerUpstream, classifyUpstreamError } from './upstreamHealth';
+import { ErrorType, ProviderError } from '../utils/errorHandler';
+
+const settings = providerSettings('telebirr');
+
+// Predates configurable sources; still leaves out the receipt page on hosts that cannot reach it
+const SKIP_PRIMARY_VERIFICATION = process.env.SKIP_PRIMARY_VERIFICATION === 'true';
+
+// Each source host has its own circuit breaker
+const sources = settings.sources
+    .filter(source => !(SKIP_PRIMARY_VERIFICATION && source.type === 'direct'))
+    .map(source => {
+        const url = source.url ?? `${settings.baseUrl}/receipt/`;
+        return { ...source, url, portal: registerUpstream(new URL(url).hostname) };
+    });
+
+type ActiveSource = typeof sources[number];
+
+if (sources.length === 0) {
+    logger.warn('SKIP_PRIMARY_VERIFICATION=true leaves no Telebirr sources; Telebirr verification will fail');
+}
+
+// A source's own timeout and headers on top of the provider settings
+const sourceRequestConfig = (source: ActiveSource, headers: Record<string, string> = {}) =>
+    portalRequestConfig({ ...settings, timeoutMs: source.timeoutMs ?? settings.timeoutMs }, { ...headers, ...source.headers });
 
 export interface TelebirrReceipt {
     payerName: string;
@@ -15,6 +45,8 @@ export interface TelebirrReceipt {
     serviceFeeVAT: string;
     totalPaidAmount: string;
     bankName: string;
+    // Name of the configured source that returned the receipt
+    source?: string;
 }
 
 /**
@@ -127,7 +159,7 @@ function extractWithRegexLegacy(htmlContent: string): { settledAmount: string |
  * @param html The HTML content to scrape
  * @returns Extracted Telebirr receipt data
  */
-function scrapeTelebirrReceipt(html: string): TelebirrReceipt {
+export function scrapeTelebirrReceipt(html: string): TelebirrReceipt {
     const $ = cheerio.load(html);
 
     // Log HTML content in debug mode to help diagnose scraping issues
@@ -283,7 +315,7 @@ function scrapeTelebirrReceipt(html: string): TelebirrReceipt {
  * @param jsonData The JSON data from the proxy endpoint
  * @returns Extracted Telebirr receipt data
  */
-function parseTelebirrJson(jsonData: any): TelebirrReceipt | null {
+export function parseTelebirrJson(jsonData: any): TelebirrReceipt | null {
     try {
         // Check if the response has the expected structure
         if (!jsonData || !jsonData.success || !jsonData.data) {
@@ -314,17 +346,18 @@ function parseTelebirrJson(jsonData: any): TelebirrReceipt | null {
 }
 
 /**
- * Fetches and processes Telebirr receipt data from the primary source (HTML)
+ * Fetches and processes Telebirr receipt data from the Ethio Telecom receipt page (HTML)
  * @param reference The Telebirr reference number
- * @param baseUrl The base URL to fetch the receipt from
- * @returns The scraped receipt data or null if failed
+ * @param source The direct source to fetch the receipt from
+ * @returns The scraped receipt data
+ * @throws ProviderError when the page cannot be fetched
  */
-async function fetchFromPrimarySource(reference: string, baseUrl: string): Promise<TelebirrReceipt | null> {
-    const url = `${baseUrl}${reference}`;
+async function fetchFromPrimarySource(reference: string, source: ActiveSource): Promise<TelebirrReceipt> {
+    const url = `${source.url}${reference}`;
 
     try {
         logger.info(`Attempting to fetch Telebirr receipt from primary source: ${url}`);
-        const response = await axios.get(url, { timeout: 15000 }); // 15 second timeout
+        const response = await source.portal.call(() => upstreamGet(url, sourceRequestConfig(source)), settings);
         logger.debug(`Received response with status: ${response.status}`);
 
         const extractedData = scrapeTelebirrReceipt(response.data);
@@ -340,6 +373,8 @@ async function fetchFromPrimarySource(reference: string, baseUrl: string): Promi
 
         return extractedData;
     } catch (error) {
+        if (error instanceof ProviderError) throw error;
+
         // Enhanced error logging with request details
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
         const errorStack = error instanceof Error ? error.stack : undefined;
@@ -358,31 +393,36 @@ async function fetchFromPrimarySource(reference: string, baseUrl: string): Promi
             ...responseDetails
         });
 
-        return null;
+        // The receipt site only serves Ethiopian IPs
+        throw classifyUpstreamError(error, source.portal.name, { geoFenced: true });
     }
 }
 
 /**
- * Fetches and processes Telebirr receipt data from the fallback proxy (JSON)
+ * Fetches and processes Telebirr receipt data from a relay proxy. JSON
+ * proxies fall back to scraping when the answer is not the expected JSON.
  * @param reference The Telebirr reference number
- * @param proxyUrl The proxy URL to fetch the receipt from
- * @returns The parsed receipt data or null if failed
+ * @param source The proxy source to fetch the receipt from
+ * @returns The parsed receipt data
+ * @throws ProviderError when the proxy cannot be reached
  */
-async function fetchFromProxySource(reference: string, proxyUrl: string): Promise<TelebirrReceipt | null> {
-    const url = `${proxyUrl}${reference}`;
+async function fetchFromProxySource(reference: string, source: ActiveSource): Promise<TelebirrReceipt> {
+    const url = `${source.url}${reference}`;
 
     try {
-        logger.info(`Attempting to fetch Telebirr receipt from proxy: ${url}`);
-        const response = await axios.get(url, {
-            timeout: 15000,
-            headers: {
-                'Accept': 'application/json',
-                'User-Agent': 'VerifierAPI/1.0'
-            }
-        });
+        logger.info(`Attempting to fetch Telebirr receipt from proxy ${source.name}: ${url}`);
+        // The relays identify us by our own User-Agent rather than a browser's
+        const response = await source.portal.call(() => upstreamGet(url, sourceRequestConfig(source, {
+            'Accept': source.type === 'json-proxy' ? 'application/json' : 'text/html',
+            'User-Agent': 'VerifierAPI/1.0'
+        })), settings);
 
         logger.debug(`Received proxy response with status: ${response.status}`);
 
+        if (source.type === 'html-proxy') {
+            return scrapeTelebirrReceipt(String(response.data));
+        }
+
         // Check if response is JSON
         let data = response.data;
         if (typeof data === 'string') {
@@ -411,6 +451,8 @@ async function fetchFromProxySource(reference: string, proxyUrl: string): Promis
 
         return extractedData;
     } catch (error) {
+        if (error instanceof ProviderError) throw error;
+
         const errorMessage = error instanceof Error ? error.message : "Unknown error";
         const errorStack = error instanceof Error ? error.stack : undefined;
 
@@ -427,32 +469,89 @@ async function fetchFromProxySource(reference: string, proxyUrl: string): Promis
             ...responseDetails
         });
 
-        return null;
+        throw classifyUpstreamError(error, source.portal.name);
     }
 }
 
-export async function verifyTelebirr(reference: string): Promise<TelebirrReceipt | null> {
-    const primaryUrl = "https://transactioninfo.ethiotelecom.et/receipt/";
-    const fallbackUrl = "https://leul.et/verify.php?reference=";
+interface SourceOutcome {
+    source: ActiveSource;
+    // Only set when the receipt is valid
+    receipt?: TelebirrReceipt;
+    error?: ProviderError;
+}
 
-    const skipPrimary = process.env.SKIP_PRIMARY_VERIFICATION === "true";
+async function trySource(reference: string, source: ActiveSource): Promise<SourceOutcome> {
+    try {
+        const receipt = source.type === 'direct'
+            ? await fetchFromPrimarySource(reference, source)
+            : await fetchFromProxySource(reference, source);
+        if (isValidReceipt(receipt)) return { source, receipt };
 
-    if (!skipPrimary) {
-        const primaryResult = await fetchFromPrimarySource(reference, primaryUrl);
-        if (primaryResult && isValidReceipt(primaryResult)) return primaryResult;
-        logger.warn(`Primary Telebirr verification failed for reference: ${reference}. Trying fallback proxy...`);
-    } else {
-        logger.info(`Skipping primary verifier due to SKIP_PRIMARY_VERIFICATION=true`);
+        logger.warn(`Telebirr source ${source.name} returned no valid receipt for reference: ${reference}`);
+        return { source };
+    } catch (error) {
+        if (!(error instanceof ProviderError)) throw error;
+        return { source, error };
     }
+}
 
-    const fallbackResult = await fetchFromProxySource(reference, fallbackUrl);
-    if (fallbackResult && isValidReceipt(fallbackResult)) {
-        logger.info(`Successfully verified Telebirr receipt using fallback proxy for reference: ${reference}`);
-        return fallbackResult;
+// Ask one source after another until one has the receipt
+async function fetchSequentially(reference: string): Promise<SourceOutcome[]> {
+    const outcomes: SourceOutcome[] = [];
+    for (const source of sources) {
+        const outcome = await trySource(reference, source);
+        outcomes.push(outcome);
+        if (outcome.receipt) break;
     }
+    return outcomes;
+}
 
-    logger.error(`Both primary and fallback Telebirr verification failed for reference: ${reference}`);
-    return null;
+// Ask every source at once and settle on the first receipt. The slower
+// requests are left to finish so their circuit breakers still see the result.
+function fetchRacing(reference: string): Promise<SourceOutcome[]> {
+    return new Promise((resolve, reject) => {
+        const outcomes: SourceOutcome[] = [];
+        let failed = 0;
+        sources.forEach((source, index) => {
+            trySource(reference, source).then(outcome => {
+                outcomes[index] = outcome;
+                if (outcome.receipt) resolve([outcome]);
+                else if (++failed === sources.length) resolve(outcomes);
+            }, reject);
+        });
+    });
+}
+
+/**
+ * Verify a Telebirr receipt against the configured sources, one after
+ * another or all at once depending on the strategy. The receipt names the
+ * source that answered under `source`.
+ * @throws ProviderError RECEIPT_NOT_FOUND when no source has the receipt,
+ * otherwise the error of the first failing source
+ */
+export async function verifyTelebirr(reference: string): Promise<TelebirrReceipt> {
+    assertProviderEnabled('telebirr');
+    assertInputFormat('telebirr', { reference });
+    if (sources.length === 0) {
+        throw new ProviderError(ErrorType.PROVIDER_DISABLED, 'No Telebirr sources are enabled on this server', { provider: 'telebirr' });
+    }
+
+    const outcomes = settings.strategy === 'race' ? await fetchRacing(reference) : await fetchSequentially(reference);
+    const winner = outcomes.find(outcome => outcome.receipt);
+    if (winner) {
+        logger.info(`Verified Telebirr receipt for reference ${reference} using source ${winner.source.name}`);
+        return { ...winner.receipt!, source: winner.source.name };
+    }
+
+    logger.error(`No Telebirr source could verify reference: ${reference}`);
+    // An empty receipt page is not conclusive, but a relay answering without the receipt is
+    const relayAnswered = outcomes.some(outcome => !outcome.error && outcome.source.type !== 'direct');
+    const firstError = outcomes.find(outcome => outcome.error)?.error;
+    if (!relayAnswered && firstError) {
+        // Sources keep their configured order, so on foreign hosts the receipt page's GEO_RESTRICTED comes first
+        throw firstError;
+    }
+    throw new ProviderError(ErrorType.RECEIPT_NOT_FOUND, 'Receipt not found or could not be processed.');
 }
 
 // Add this helper function to validate receipt data
@@ -463,4 +562,39 @@ function isValidReceipt(receipt: TelebirrReceipt): boolean {
         receipt.payerName &&
         receipt.transactionStatus
     );
-}
\ No newline at end of file
+}
+registerProvider<TelebirrReceipt>({
+    name: 'telebirr',
+    displayName: 'Telebirr',
+    legacyPath: '/verify-telebirr',
+    inputs: [
+        {
+            name: 'reference',
+            description: 'Telebirr receipt number (e.g. CHQ0FJ403O)',
+            required: true,
+            pattern: /^C[A-Z0-9]{9}$/i,
+            patternHint: 'must be 10 characters starting with C'
+        }
+    ],
+    parsers: {
+        html: async raw => scrapeTelebirrReceipt(raw.toString('utf8')),
+        json: async raw => {
+            const receipt = parseTelebirrJson(JSON.parse(raw.toString('utf8')));
+            if (!receipt) throw new ProviderError(ErrorType.PARSE_FAILED, 'Invalid JSON structure from proxy endpoint');
+            return receipt;
+        }
+    },
+    verify: async ({ reference }) => ({ success: true, data: await verifyTelebirr(reference) }),
+    normalize: receipt => ({
+        reference: receipt.receiptNo || null,
+        status: toReceiptStatus(receipt.transactionStatus),
+        payer: { name: receipt.payerName || null, account: receipt.payerTelebirrNo || null },
+        payee: { name: receipt.creditedPartyName || null, account: receipt.creditedPartyAccountNo || null },
+        amount: toMinorUnits(receipt.settledAmount),
+        fees: toMinorUnits(receipt.serviceFee),
+        vat: toMinorUnits(receipt.serviceFeeVAT),
+        timestamp: fromAddisTimestamp(receipt.paymentDate),
+        reason: null,
+        ...(receipt.source && { source: receipt.source })
+    })
+});
@@ -0,0 +1,150 @@
+import { describe, test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { deliverWebhook, retryDueWebhooks, SIGNATURE_HEADER, verifyWebhookSignature } from './webhooks';
+import { setWebhookDeliveryStore, WebhookAttempt, WebhookDeliveryStore } from '../utils/webhookDeliveryStore';
+import logger from '../utils/logger';
+
+logger.silent = true;
+
+const SECRET = 'whsec_test';
+
+// Rows as the Prisma store keeps them, so a retry can be driven from what was persisted
+const createTestStore = (target: { url: string; secret: string } | null) => {
+    const rows: (WebhookAttempt & { id: string })[] = [];
+    let onRecord = () => {};
+
+    const store: WebhookDeliveryStore = {
+        name: 'test',
+        async record(attempt) {
+            rows.push({ ...attempt, id: String(rows.length + 1) });
+            onRecord();
+        },
+        async claimDue(now, limit) {
+            const due = rows.filter(row => row.nextAttemptAt && row.nextAttemptAt <= now).slice(0, limit);
+            for (const row of due) row.nextAttemptAt = null;
+            return due.map(row => ({ id: row.id, apiKeyId: row.apiKeyId, attempt: row.attempt, payload: row.payload! }));
+        },
+        async findTarget() {
+            return target;
+        }
+    };
+
+    const nextRecord = () => new Promise<void>(resolve => {
+        onRecord = resolve;
+    });
+    return { store, rows, nextRecord };
+};
+
+describe('webhook delivery', () => {
+    let server: Server;
+    let url: string;
+    let failuresLeft: number;
+    let received: { body: string; signature: string }[];
+
+    before(async () => {
+        const app = express();
+        app.post('/hook', express.text({ type: 'application/json' }), (req, res) => {
+            received.push({ body: req.body, signature: String(req.headers[SIGNATURE_HEADER.toLowerCase()]) });
+            if (failuresLeft > 0) {
+                failuresLeft--;
+                res.status(503).end();
+                return;
+            }
+            res.status(204).end();
+        });
+        server = await new Promise<Server>(resolve => {
+            const listening = app.listen(0, () => resolve(listening));
+        });
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    beforeEach(() => {
+        failuresLeft = 0;
+        received = [];
+    });
+
+    const event = { event: 'verification.completed', jobId: 'job-1', payload: { status: 'completed' } };
+
+    test('signs the body so the receiver can verify it', async () => {
+        const { store, rows, nextRecord } = createTestStore({ url, secret: SECRET });
+        setWebhookDeliveryStore(store);
+
+        const recorded = nextRecord();
+        deliverWebhook({ apiKeyId: 'key-1', url, secret: SECRET }, event);
+        await recorded;
+
+        assert.equal(received.length, 1);
+        assert.ok(verifyWebhookSignature(SECRET, received[0].body, received[0].signature));
+        assert.ok(!verifyWebhookSignature('whsec_other', received[0].body, received[0].signature));
+        assert.deepEqual(JSON.parse(received[0].body).data, { status: 'completed' });
+
+        assert.equal(rows.length, 1);
+        assert.equal(rows[0].statusCode, 204);
+        assert.ok(rows[0].deliveredAt);
+        assert.equal(rows[0].nextAttemptAt, null);
+    });
+
+    test('persists a failed attempt and retries it from the stored row once due', async () => {
+        const { store, rows, nextRecord } = createTestStore({ url, secret: SECRET });
+        setWebhookDeliveryStore(store);
+        failuresLeft = 1;
+
+        const recorded = nextRecord();
+        deliverWebhook({ apiKeyId: 'key-1', url, secret: SECRET }, event);
+        await recorded;
+
+        assert.equal(rows[0].statusCode, 503);
+        assert.equal(rows[0].deliveredAt, null);
+        const dueAt = rows[0].nextAttemptAt!;
+        assert.ok(dueAt.getTime() > Date.now());
+
+        assert.equal(await retryDueWebhooks(new Date(dueAt.getTime() - 1)), 0);
+        assert.equal(await retryDueWebhooks(dueAt), 1);
+        // The claim clears the row, so a second poll does not resend it
+        assert.equal(await retryDueWebhooks(dueAt), 0);
+
+        assert.equal(received.length, 2);
+        assert.equal(received[1].body, received[0].body);
+        assert.ok(verifyWebhookSignature(SECRET, received[1].body, received[1].signature));
+        assert.equal(rows[1].attempt, 2);
+        assert.ok(rows[1].deliveredAt);
+        assert.equal(rows[1].nextAttemptAt, null);
+    });
+
+    test('stops scheduling retries after the last attempt', async () => {
+        const { store, rows, nextRecord } = createTestStore({ url, secret: SECRET });
+        setWebhookDeliveryStore(store);
+        failuresLeft = Infinity;
+
+        const recorded = nextRecord();
+        deliverWebhook({ apiKeyId: 'key-1', url, secret: SECRET }, event);
+        await recorded;
+
+        const far = new Date(Date.now() + 24 * 60 * 60 * 1000);
+        while (await retryDueWebhooks(far) > 0);
+
+        assert.equal(rows.length, 6);
+        assert.deepEqual(rows.map(row => row.attempt), [1, 2, 3, 4, 5, 6]);
+        assert.equal(rows[5].nextAttemptAt, null);
+        assert.equal(rows[5].payload, null);
+    });
+
+    test('drops a pending retry when the key no longer has a webhook', async () => {
+        const { store, rows, nextRecord } = createTestStore(null);
+        setWebhookDeliveryStore(store);
+        failuresLeft = 1;
+
+        const recorded = nextRecord();
+        deliverWebhook({ apiKeyId: 'key-1', url, secret: SECRET }, event);
+        await recorded;
+
+        assert.equal(await retryDueWebhooks(rows[0].nextAttemptAt!), 0);
+        assert.equal(received.length, 1);
+        assert.equal(rows.length, 1);
+    });
+});
@@ -0,0 +1,173 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { getWebhookDeliveryStore, WebhookBody } from '../utils/webhookDeliveryStore';
+import logger from '../utils/logger';
+
+const MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10);
+const BASE_DELAY_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '2000', 10);
+const TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+const RETRY_POLL_MS = parseInt(process.env.WEBHOOK_RETRY_POLL_MS || '5000', 10);
+const RETRY_BATCH_SIZE = 50;
+
+export const SIGNATURE_HEADER = 'X-Verifier-Signature';
+
+export interface WebhookTarget {
+    apiKeyId: string;
+    url: string;
+    secret: string;
+}
+
+export interface WebhookEvent {
+    event: string;
+    jobId: string;
+    payload: Record<string, unknown>;
+}
+
+export const generateWebhookSecret = () => `whsec_${crypto.randomBytes(24).toString('hex')}`;
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256>` where the
+ * HMAC covers `${t}.${body}`. Receivers should recompute it over the raw
+ * body and reject stale timestamps to prevent replays.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${signature}`;
+}
+
+// Receiver-side check, exported for integrators and local stand-ins
+export function verifyWebhookSignature(secret: string, body: string, header: string, toleranceSeconds = 300): boolean {
+    const parts = Object.fromEntries(header.split(',').map(part => part.split('=') as [string, string]));
+    const timestamp = parseInt(parts.t, 10);
+    if (!timestamp || !parts.v1 || Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+        return false;
+    }
+
+    const expected = signWebhookPayload(secret, body, timestamp).split('v1=')[1];
+    return expected.length === parts.v1.length &&
+        crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1));
+}
+
+// 2s, 4s, 8s, ... with up to 20% jitter so retries from many jobs spread out
+const retryDelay = (attempt: number) => {
+    const delay = BASE_DELAY_MS * 2 ** (attempt - 1);
+    return Math.round(delay + delay * 0.2 * Math.random());
+};
+
+async function attemptDelivery(target: WebhookTarget, body: WebhookBody, attempt: number): Promise<boolean> {
+    const serialized = JSON.stringify(body);
+    const start = Date.now();
+    let statusCode: number | undefined;
+    let error: string | undefined;
+
+    try {
+        const response = await axios.post(target.url, serialized, {
+            timeout: TIMEOUT_MS,
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'VerifierAPI-Webhooks/1.0',
+                [SIGNATURE_HEADER]: signWebhookPayload(target.secret, serialized)
+            },
+            validateStatus: () => true
+        });
+        statusCode = response.status;
+        if (statusCode < 200 || statusCode >= 300) {
+            error = `Receiver responded with HTTP ${statusCode}`;
+        }
+    } catch (err) {
+        error = err instanceof Error ? err.message : 'Unknown error';
+    }
+
+    const delivered = !error;
+    const retry = !delivered && attempt < MAX_ATTEMPTS;
+    try {
+        await getWebhookDeliveryStore().record({
+            apiKeyId: target.apiKeyId,
+            jobId: body.jobId,
+            event: body.event,
+            url: target.url,
+            attempt,
+            statusCode: statusCode ?? null,
+            error: error ?? null,
+            durationMs: Date.now() - start,
+            deliveredAt: delivered ? new Date() : null,
+            nextAttemptAt: retry ? new Date(Date.now() + retryDelay(attempt)) : null,
+            payload: retry ? body : null
+        });
+    } catch (logErr) {
+        logger.error('Error recording webhook delivery:', logErr);
+    }
+
+    if (delivered) {
+        logger.info(`📬 Webhook ${body.event} for job ${body.jobId} delivered on attempt ${attempt}`);
+    } else if (retry) {
+        logger.warn(`📭 Webhook ${body.event} for job ${body.jobId} failed on attempt ${attempt}: ${error}`);
+    } else {
+        logger.error(`Giving up on webhook ${body.event} for job ${body.jobId} after ${attempt} attempts: ${error}`);
+    }
+    return delivered;
+}
+
+/**
+ * Deliver an event once. A failed attempt is stored with `nextAttemptAt`
+ * and picked up by the retry poller, so retries survive restarts.
+ */
+export function deliverWebhook(target: WebhookTarget, event: WebhookEvent): void {
+    const body: WebhookBody = {
+        id: `${event.jobId}:${event.event}`,
+        event: event.event,
+        jobId: event.jobId,
+        createdAt: new Date().toISOString(),
+        data: event.payload
+    };
+    attemptDelivery(target, body, 1)
+        .catch(err => logger.error('Unexpected webhook delivery error:', err));
+}
+
+/**
+ * Send every retry that is due. Resolves with the number of attempts made.
+ * The key's current URL and secret are used, so a rotated secret applies to
+ * pending retries too.
+ */
+export async function retryDueWebhooks(now = new Date()): Promise<number> {
+    const store = getWebhookDeliveryStore();
+    const due = await store.claimDue(now, RETRY_BATCH_SIZE);
+
+    let attempted = 0;
+    for (const retry of due) {
+        const target = await store.findTarget(retry.apiKeyId);
+        if (!target) {
+            logger.warn(`Dropping webhook retry for job ${retry.payload.jobId}: the API key has no webhook any more`);
+            continue;
+        }
+        await attemptDelivery({ apiKeyId: retry.apiKeyId, ...target }, retry.payload, retry.attempt + 1);
+        attempted++;
+    }
+    return attempted;
+}
+
+let retryTimer: NodeJS.Timeout | null = null;
+let retrying = false;
+
+const pollRetries = () => {
+    if (retrying) return;
+    retrying = true;
+    retryDueWebhooks()
+        .catch(err => logger.error('Error retrying webhooks:', err))
+        .finally(() => {
+            retrying = false;
+        });
+};
+
+export function startWebhookRetries(): void {
+    if (retryTimer) return;
+    retryTimer = setInterval(pollRetries, RETRY_POLL_MS);
+    retryTimer.unref();
+    pollRetries();
+    logger.info(`Webhook retry poller started (every ${RETRY_POLL_MS}ms)`);
+}
+
+export function stopWebhookRetries(): void {
+    if (retryTimer) clearInterval(retryTimer);
+    retryTimer = null;
+}
@@ -1,6 +1,8 @@
 declare module 'pdf-parse' {
     interface PDFInfo {
-        pdfInfo: {
+        numpages: number;
+        // Document information dictionary
+        info: {
             PDFFormatVersion: string;
             IsAcroFormPresent: boolean;
             IsXFAPresent: boolean;
@@ -13,6 +15,7 @@ declare module 'pdf-parse' {
             Tagged: boolean;
             Form: string;
             Pages: number;
+            [key: string]: unknown;
         };
         metadata?: any;
         text: string;
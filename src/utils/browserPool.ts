@@ -0,0 +1,138 @@
+import puppeteer, { Browser, Page } from 'puppeteer';
+import logger from './logger';
+import { createSemaphore } from './semaphore';
+
+// Warm Chromium processes kept by this instance
+const POOL_SIZE = parseInt(process.env.BROWSER_POOL_SIZE || '1', 10);
+// Pages open at the same time across the whole pool
+const MAX_PAGES = parseInt(process.env.BROWSER_MAX_PAGES || '4', 10);
+// Contexts served by one browser before it is replaced, to cap memory growth
+const MAX_USES = parseInt(process.env.BROWSER_MAX_USES || '100', 10);
+
+const LAUNCH_ARGS = [
+    '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--ignore-certificate-errors',
+    '--disable-dev-shm-usage',
+    '--disable-gpu'
+];
+
+interface PooledBrowser {
+    index: number;
+    browser: Browser;
+    active: number;
+    uses: number;
+    retired: boolean;
+}
+
+const slots: (Promise<PooledBrowser> | null)[] = Array(POOL_SIZE).fill(null);
+const pages = createSemaphore(MAX_PAGES);
+let closing = false;
+
+function launch(index: number): Promise<PooledBrowser> {
+    const pending = puppeteer
+        .launch({
+            headless: true,
+            args: LAUNCH_ARGS,
+            executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined
+        })
+        .then(browser => {
+            const entry: PooledBrowser = { index, browser, active: 0, uses: 0, retired: false };
+            logger.info(`🌐 Launched pooled browser #${index}`);
+
+            // A crashed or killed browser is dropped; the next request launches a fresh one
+            browser.on('disconnected', () => {
+                if (!entry.retired && !closing) {
+                    logger.warn(`⚠️ Pooled browser #${index} disconnected, it will be relaunched`);
+                }
+                entry.retired = true;
+                if (slots[index] === pending) slots[index] = null;
+            });
+            return entry;
+        });
+
+    slots[index] = pending;
+    pending.catch(() => {
+        if (slots[index] === pending) slots[index] = null;
+    });
+    return pending;
+}
+
+// Least busy live browser, launching one into an empty slot if there is any
+async function getBrowser(): Promise<PooledBrowser> {
+    const empty = slots.findIndex(slot => slot === null);
+    if (empty !== -1) {
+        return launch(empty);
+    }
+
+    const settled = await Promise.allSettled(slots as Promise<PooledBrowser>[]);
+    const live = settled.flatMap(result =>
+        result.status === 'fulfilled' && !result.value.retired && result.value.browser.connected ? [result.value] : []
+    );
+    if (live.length === 0) {
+        const free = slots.findIndex(slot => slot === null);
+        return launch(free === -1 ? 0 : free);
+    }
+    return live.reduce((best, entry) => (entry.active < best.active ? entry : best));
+}
+
+// Take a browser out of rotation; it is closed once its last page is done
+async function retire(entry: PooledBrowser) {
+    entry.retired = true;
+    const slot = slots[entry.index];
+    if (slot && (await slot.catch(() => null)) === entry && slots[entry.index] === slot) {
+        slots[entry.index] = null;
+    }
+    if (entry.active === 0) {
+        await entry.browser.close().catch(() => undefined);
+    }
+}
+
+/**
+ * Run `task` with a fresh page in an isolated (incognito) browser context.
+ * Browsers are shared and kept warm; the number of open pages is capped and
+ * callers beyond the cap wait for a free one. The context is always closed
+ * afterwards, so cookies and cache never leak between verifications.
+ */
+export async function withBrowserPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    if (closing) {
+        throw new Error('Browser pool is shutting down');
+    }
+
+    const release = await pages.acquire();
+    let entry: PooledBrowser | undefined;
+    try {
+        entry = await getBrowser();
+        entry.active++;
+        entry.uses++;
+
+        const context = await entry.browser.createBrowserContext();
+        try {
+            const page = await context.newPage();
+            return await task(page);
+        } finally {
+            await context.close().catch(() => undefined);
+        }
+    } finally {
+        if (entry) {
+            entry.active--;
+            if (entry.uses >= MAX_USES && !entry.retired) {
+                logger.info(`♻️ Recycling pooled browser after ${entry.uses} uses`);
+                await retire(entry);
+            } else if (entry.retired && entry.active === 0 && entry.browser.connected) {
+                await entry.browser.close().catch(() => undefined);
+            }
+        }
+        release();
+    }
+}
+
+// Close every pooled browser; used on shutdown
+export async function closeBrowserPool() {
+    closing = true;
+    const entries = await Promise.all(slots.map(slot => slot?.catch(() => null) ?? null));
+    slots.fill(null);
+    await Promise.all(
+        entries.map(entry => entry?.browser.close().catch(() => undefined))
+    );
+}
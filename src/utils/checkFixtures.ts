@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import logger from './logger';
+import { FIXTURES_DIR, expectedPath, fixturePath } from './fixtures';
+import type { Recording } from './upstreamTransport';
+import { ProviderError } from './errorHandler';
+import { getProvider, listProviders, normalizeReceipt, ProviderDefinition, RawResponseFormat } from '../services/providers';
+
+/**
+ * Replays every recorded upstream response in `fixtures/` through its
+ * provider's parser and compares the normalized receipt with the
+ * `<fixture>.expected.json` next to it. No network access is needed.
+ *
+ *   pnpm fixtures:check              check all providers
+ *   pnpm fixtures:check cbe dashen   check some providers
+ *   pnpm fixtures:check --update     (re)write the expected files from the current parsers
+ *   pnpm fixtures:check --import recordings/<file>.json telebirr <name>
+ *                                    turn a response saved with UPSTREAM_MODE=record into a fixture
+ *
+ * A provider with parsers but no fixtures fails the check, so a new
+ * provider cannot ship untested.
+ */
+
+type FixtureOutcome = { receipt: unknown } | { error: { code: string; message: string; details?: unknown } };
+
+async function parseFixture(provider: ProviderDefinition<any>, file: string): Promise<FixtureOutcome> {
+    const format = path.extname(file).slice(1) as RawResponseFormat;
+    try {
+        const data = await provider.parsers![format]!(fs.readFileSync(file));
+        // Round-trip through JSON so dates compare the way they are stored
+        return { receipt: JSON.parse(JSON.stringify(normalizeReceipt(provider, data))) };
+    } catch (error) {
+        // A fixture may record a receipt the parser has to reject
+        if (error instanceof ProviderError) {
+            return { error: { code: error.type, message: error.message, ...(error.details && { details: error.details }) } };
+        }
+        throw error;
+    }
+}
+
+// Dotted paths where two outcomes differ, for a readable failure report
+function differences(expected: unknown, actual: unknown, at = ''): string[] {
+    if (isDeepStrictEqual(expected, actual)) return [];
+    if (typeof expected !== 'object' || typeof actual !== 'object' || !expected || !actual) {
+        return [`${at || '(root)'}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`];
+    }
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    return [...keys].flatMap(key =>
+        differences((expected as any)[key], (actual as any)[key], at ? `${at}.${key}` : key)
+    );
+}
+
+// The recording's content type decides the format, which the provider must have a parser for
+function recordingFormat(recording: Recording, provider: ProviderDefinition<any>): RawResponseFormat {
+    const contentType = recording.contentType ?? '';
+    const format: RawResponseFormat = /pdf/i.test(contentType) ? 'pdf' : /json/i.test(contentType) ? 'json' : 'html';
+    if (!provider.parsers?.[format]) {
+        throw new Error(`${provider.name} has no ${format} parser for a ${contentType || 'untyped'} response`);
+    }
+    return format;
+}
+
+function importRecording(file: string, providerName: string, name: string) {
+    const provider = getProvider(providerName);
+    if (!provider) throw new Error(`Unknown provider "${providerName}"`);
+
+    const recording: Recording = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const target = fixturePath(provider.name, name, recordingFormat(recording, provider));
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, Buffer.from(recording.body, 'base64'));
+
+    console.log(`📼 ${recording.url} (${recording.status}) saved as ${target}`);
+    console.log(`   Anonymize it, then run: pnpm fixtures:check --update ${provider.name}`);
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    // Parsers log every field; only problems matter here
+    logger.level = process.env.LOG_LEVEL || 'warn';
+
+    if (args[0] === '--import') {
+        const [, file, providerName, name] = args;
+        try {
+            if (!file || !providerName || !name) {
+                throw new Error('Usage: pnpm fixtures:check --import <recording.json> <provider> <name>');
+            }
+            importRecording(file, providerName, name);
+        } catch (error) {
+            console.log(`❌ ${error instanceof Error ? error.message : error}`);
+            process.exit(1);
+        }
+        return;
+    }
+
+    const update = args.includes('--update');
+    const only = args.filter(arg => !arg.startsWith('--'));
+
+    let checked = 0;
+    let failed = 0;
+
+    for (const provider of listProviders()) {
+        if (!provider.parsers || (only.length > 0 && !only.includes(provider.name))) continue;
+
+        const dir = path.join(FIXTURES_DIR, provider.name);
+        const fixtures = fs.existsSync(dir)
+            ? fs.readdirSync(dir)
+                .filter(name => path.extname(name).slice(1) in provider.parsers! && !name.endsWith('.expected.json'))
+                .sort()
+            : [];
+
+        if (fixtures.length === 0) {
+            failed++;
+            console.log(`❌ ${provider.name}: no fixtures in ${dir}, record at least one response`);
+            continue;
+        }
+
+        for (const name of fixtures) {
+            const file = path.join(dir, name);
+            const expectedFile = expectedPath(file);
+            const actual = await parseFixture(provider, file);
+            checked++;
+
+            if (update) {
+                fs.writeFileSync(expectedFile, `${JSON.stringify(actual, null, 2)}\n`);
+                console.log(`📝 ${provider.name}/${name}: expected output written`);
+                continue;
+            }
+            if (!fs.existsSync(expectedFile)) {
+                failed++;
+                console.log(`❌ ${provider.name}/${name}: no ${path.basename(expectedFile)}, run with --update after checking the fixture`);
+                continue;
+            }
+
+            const diff = differences(JSON.parse(fs.readFileSync(expectedFile, 'utf8')), actual);
+            if (diff.length === 0) {
+                console.log(`✅ ${provider.name}/${name}`);
+            } else {
+                failed++;
+                console.log(`❌ ${provider.name}/${name}`);
+                diff.forEach(line => console.log(`   ${line}`));
+            }
+        }
+    }
+
+    console.log(`\n${checked} fixture(s) checked in ${FIXTURES_DIR}, ${failed} failed`);
+    process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+    console.error('Fixture check crashed:', error);
+    process.exit(1);
+});
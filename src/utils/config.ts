@@ -0,0 +1,443 @@
+import fs from 'fs';
+import path from 'path';
+import logger from './logger';
+import { ErrorType, ProviderError } from './errorHandler';
+
+// Optional JSON file with provider settings; environment variables override it
+const CONFIG_FILE = process.env.CONFIG_FILE || null;
+
+export const CONFIGURED_PROVIDERS = ['cbe', 'telebirr', 'dashen', 'abyssinia', 'cbebirr'] as const;
+
+export type ConfiguredProvider = typeof CONFIGURED_PROVIDERS[number];
+
+/**
+ * How one provider reaches its bank portal. `baseUrl` is the portal's
+ * scheme, host and port; the services add the receipt path.
+ */
+export interface ProviderSettings {
+    enabled: boolean;
+    baseUrl: string;
+    timeoutMs: number;
+    // Extra attempts after a timeout, network error or 5xx
+    retries: number;
+    retryDelayMs: number;
+    // null sends axios' own User-Agent
+    userAgent: string | null;
+    // Check the portal's TLS certificate; CBE and Dashen serve incomplete chains
+    verifyTls: boolean;
+}
+
+export interface CBESettings extends ProviderSettings {
+    // How long the headless-browser fallback waits for the receipt PDF
+    browserTimeoutMs: number;
+}
+
+export const TELEBIRR_SOURCE_TYPES = ['direct', 'json-proxy', 'html-proxy'] as const;
+
+export type TelebirrSourceType = typeof TELEBIRR_SOURCE_TYPES[number];
+
+/**
+ * One place a Telebirr receipt can be fetched from. `direct` is the Ethio
+ * Telecom receipt page, the proxies are relays answering with the same
+ * receipt as JSON or HTML. The reference is appended to `url`.
+ */
+export interface TelebirrSource {
+    name: string;
+    type: TelebirrSourceType;
+    // Defaults to `<baseUrl>/receipt/` for direct sources
+    url: string | null;
+    // Sent with every request, e.g. a relay's Authorization header
+    headers: Record<string, string>;
+    // null uses the provider's timeoutMs
+    timeoutMs: number | null;
+}
+
+export const TELEBIRR_STRATEGIES = ['sequential', 'race'] as const;
+
+export interface TelebirrSettings extends ProviderSettings {
+    // Tried in this order by the sequential strategy
+    sources: TelebirrSource[];
+    // sequential asks one source after another, race asks all at once and takes the first receipt
+    strategy: typeof TELEBIRR_STRATEGIES[number];
+}
+
+export interface AppConfig {
+    // Config file the settings were read from, if any
+    file: string | null;
+    providers: {
+        cbe: CBESettings;
+        telebirr: TelebirrSettings;
+        dashen: ProviderSettings;
+        abyssinia: ProviderSettings;
+        cbebirr: ProviderSettings;
+    };
+}
+
+const BROWSER_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64)';
+
+const DEFAULTS: AppConfig['providers'] = {
+    cbe: {
+        enabled: true,
+        baseUrl: 'https://apps.cbe.com.et:100',
+        timeoutMs: 30000,
+        retries: 0,
+        retryDelayMs: 1000,
+        userAgent: BROWSER_UA,
+        verifyTls: false,
+        browserTimeoutMs: 20000
+    },
+    telebirr: {
+        enabled: true,
+        baseUrl: 'https://transactioninfo.ethiotelecom.et',
+        timeoutMs: 15000,
+        retries: 0,
+        retryDelayMs: 1000,
+        userAgent: null,
+        verifyTls: true,
+        sources: [
+            { name: 'ethiotelecom', type: 'direct', url: null, headers: {}, timeoutMs: null },
+            { name: 'leul', type: 'json-proxy', url: 'https://leul.et/verify.php?reference=', headers: {}, timeoutMs: null }
+        ],
+        strategy: 'sequential'
+    },
+    dashen: {
+        enabled: true,
+        baseUrl: 'https://receipt.dashensuperapp.com',
+        timeoutMs: 30000,
+        retries: 0,
+        retryDelayMs: 1000,
+        userAgent: BROWSER_UA,
+        verifyTls: false
+    },
+    abyssinia: {
+        enabled: true,
+        baseUrl: 'https://cs.bankofabyssinia.com',
+        timeoutMs: 30000,
+        retries: 0,
+        retryDelayMs: 1000,
+        userAgent: `${BROWSER_UA} AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36`,
+        verifyTls: true
+    },
+    cbebirr: {
+        enabled: true,
+        baseUrl: 'https://cbepay1.cbe.com.et',
+        timeoutMs: 30000,
+        retries: 0,
+        retryDelayMs: 1000,
+        userAgent: `${BROWSER_UA} AppleWebKit/537.36`,
+        verifyTls: true
+    }
+};
+
+// Configuration that cannot be used; lists every problem at once
+export class ConfigError extends Error {
+    problems: string[];
+
+    constructor(problems: string[]) {
+        super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+        this.problems = problems;
+        this.name = 'ConfigError';
+    }
+}
+
+type Parser = (value: unknown) => { value?: unknown; error?: string };
+
+const isHttpUrl = (value: string) => {
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+// Environment variables are always strings, a config file has real types; parsers accept both
+const integer = (min: number, max: number): Parser => value => {
+    const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return Number.isInteger(number) && (number as number) >= min && (number as number) <= max
+        ? { value: number }
+        : { error: `must be an integer from ${min} to ${max}` };
+};
+
+const boolean: Parser = value => {
+    if (typeof value === 'boolean') return { value };
+    if (value === 'true' || value === 'false') return { value: value === 'true' };
+    return { error: 'must be true or false' };
+};
+
+const url: Parser = value =>
+    typeof value === 'string' && isHttpUrl(value.trim())
+        ? { value: value.trim().replace(/\/+$/, '') }
+        : { error: 'must be an http(s) URL' };
+
+// Empty or null leaves the value unset
+const optionalString: Parser = value => {
+    if (value === null || value === '') return { value: null };
+    return typeof value === 'string' ? { value } : { error: 'must be a string or null' };
+};
+
+const oneOf = (choices: readonly string[]): Parser => value =>
+    typeof value === 'string' && choices.includes(value)
+        ? { value }
+        : { error: `must be one of ${choices.join(', ')}` };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+function parseSource(value: unknown, index: number, names: Set<string>): { source?: TelebirrSource; errors: string[] } {
+    const at = `sources[${index}]`;
+    if (!isPlainObject(value)) return { errors: [`${at} must be an object`] };
+
+    const errors = Object.keys(value)
+        .filter(key => !['name', 'type', 'url', 'headers', 'timeoutMs'].includes(key))
+        .map(key => `${at}.${key} is not a source setting`);
+    const { name, type, url: sourceUrl = null, headers = {}, timeoutMs = null } = value;
+
+    if (typeof name !== 'string' || name.trim() === '') errors.push(`${at}.name must be a non-empty string`);
+    else if (names.has(name)) errors.push(`${at}.name "${name}" is used twice`);
+    else names.add(name);
+    if (!TELEBIRR_SOURCE_TYPES.includes(type as TelebirrSourceType)) {
+        errors.push(`${at}.type must be one of ${TELEBIRR_SOURCE_TYPES.join(', ')}`);
+    }
+    if (sourceUrl === null ? type !== 'direct' : typeof sourceUrl !== 'string' || !isHttpUrl(sourceUrl)) {
+        errors.push(`${at}.url must be an http(s) URL${type === 'direct' ? ' or null' : ''}`);
+    }
+    if (!isPlainObject(headers) || Object.values(headers).some(header => typeof header !== 'string')) {
+        errors.push(`${at}.headers must map header names to strings`);
+    }
+    if (timeoutMs !== null && integer(1, 300000)(timeoutMs).error) {
+        errors.push(`${at}.timeoutMs must be an integer from 1 to 300000 or null`);
+    }
+
+    if (errors.length > 0) return { errors };
+    return {
+        source: {
+            name: name as string,
+            type: type as TelebirrSourceType,
+            url: sourceUrl as string | null,
+            headers: headers as Record<string, string>,
+            timeoutMs: timeoutMs === null ? null : Number(timeoutMs)
+        },
+        errors
+    };
+}
+
+// A JSON array in the environment, an array in the file; order is kept
+const sourceList: Parser = value => {
+    let items = value;
+    if (typeof value === 'string') {
+        try {
+            items = JSON.parse(value);
+        } catch {
+            return { error: 'must be a JSON array of sources' };
+        }
+    }
+    if (!Array.isArray(items) || items.length === 0) return { error: 'must be a non-empty list of sources' };
+
+    const names = new Set<string>();
+    const parsed = items.map((item, index) => parseSource(item, index, names));
+    const errors = parsed.flatMap(result => result.errors);
+    return errors.length === 0
+        ? { value: parsed.map(result => result.source) }
+        : { error: errors.join('; ') };
+};
+
+// Comma-separated in the environment, an array in the file
+const urlList = (value: unknown): unknown[] | null => {
+    const items = typeof value === 'string' ? value.split(',').map(item => item.trim()).filter(Boolean) : value;
+    return Array.isArray(items) ? items : null;
+};
+
+/**
+ * Settings replaced by another one and still accepted under their old name.
+ * `convert` turns the old value into input for the new setting's parser,
+ * which validates it as usual.
+ */
+const RENAMED_SETTINGS: Record<string, { env: string; to: string; convert: (value: unknown) => unknown }> = {
+    // `proxies` was a list of JSON relays tried after the receipt page
+    proxies: {
+        env: 'PROXIES',
+        to: 'sources',
+        convert: value => {
+            const urls = urlList(value);
+            if (!urls) return value;
+            return [
+                { name: 'ethiotelecom', type: 'direct' },
+                ...urls.map((proxyUrl, index) => ({ name: `proxy-${index + 1}`, type: 'json-proxy', url: proxyUrl }))
+            ];
+        }
+    }
+};
+
+// `sensitive` settings may hold credentials and are not echoed in errors
+const SETTINGS: Record<string, { parse: Parser; env: string; sensitive?: boolean }> = {
+    enabled: { parse: boolean, env: 'ENABLED' },
+    baseUrl: { parse: url, env: 'BASE_URL' },
+    timeoutMs: { parse: integer(1, 300000), env: 'TIMEOUT_MS' },
+    retries: { parse: integer(0, 5), env: 'RETRIES' },
+    retryDelayMs: { parse: integer(0, 60000), env: 'RETRY_DELAY_MS' },
+    userAgent: { parse: optionalString, env: 'USER_AGENT' },
+    verifyTls: { parse: boolean, env: 'VERIFY_TLS' },
+    browserTimeoutMs: { parse: integer(1, 300000), env: 'BROWSER_TIMEOUT_MS' },
+    sources: { parse: sourceList, env: 'SOURCES', sensitive: true },
+    strategy: { parse: oneOf(TELEBIRR_STRATEGIES), env: 'STRATEGY' }
+};
+
+function readConfigFile(file: string, problems: string[]): Record<string, unknown> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+        problems.push(`CONFIG_FILE ${file}: ${error instanceof Error ? error.message : String(error)}`);
+        return {};
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        problems.push(`CONFIG_FILE ${file}: must hold a JSON object`);
+        return {};
+    }
+    for (const key of Object.keys(parsed)) {
+        if (key !== 'providers') problems.push(`${key} (from ${file}): unknown setting, expected "providers"`);
+    }
+    const providers = (parsed as Record<string, unknown>).providers ?? {};
+    if (typeof providers !== 'object' || Array.isArray(providers)) {
+        problems.push(`providers (from ${file}): must be an object keyed by provider name`);
+        return {};
+    }
+    return providers as Record<string, unknown>;
+}
+
+/**
+ * Build the provider settings from the defaults, then `CONFIG_FILE`, then
+ * environment variables named `<PROVIDER>_<SETTING>` (e.g. `CBE_TIMEOUT_MS`,
+ * `TELEBIRR_STRATEGY`). Every value is validated.
+ * @throws ConfigError listing every invalid or unknown setting
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env, file: string | null = CONFIG_FILE): AppConfig {
+    const problems: string[] = [];
+    const resolvedFile = file ? path.resolve(file) : null;
+    const fromFile = resolvedFile ? readConfigFile(resolvedFile, problems) : {};
+
+    for (const name of Object.keys(fromFile)) {
+        if (!CONFIGURED_PROVIDERS.includes(name as ConfiguredProvider)) {
+            problems.push(`providers.${name} (from ${resolvedFile}): unknown provider, expected one of ${CONFIGURED_PROVIDERS.join(', ')}`);
+        }
+    }
+
+    const providers = {} as Record<ConfiguredProvider, Record<string, unknown>>;
+    for (const name of CONFIGURED_PROVIDERS) {
+        const settings: Record<string, unknown> = { ...DEFAULTS[name] };
+        let overrides = fromFile[name] ?? {};
+        if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+            problems.push(`providers.${name} (from ${resolvedFile}): must be an object`);
+            overrides = {};
+        }
+
+        const apply = (key: string, value: unknown, source: string) => {
+            const result = SETTINGS[key].parse(value);
+            if (result.error) {
+                const got = SETTINGS[key].sensitive ? '' : `, got ${JSON.stringify(value)}`;
+                problems.push(`providers.${name}.${key} (from ${source}): ${result.error}${got}`);
+            } else {
+                settings[key] = result.value;
+            }
+        };
+
+        const applyRenamed = (key: string, value: unknown, source: string, alongside: boolean) => {
+            const { to } = RENAMED_SETTINGS[key];
+            const newEnv = `${name.toUpperCase()}_${SETTINGS[to].env}`;
+            if (alongside) {
+                problems.push(`providers.${name}.${key} (from ${source}): replaced by ${to}, set only ${to} (${newEnv})`);
+                return;
+            }
+            logger.warn(`providers.${name}.${key} (from ${source}) is deprecated, use ${to} (${newEnv}) instead`);
+            apply(to, RENAMED_SETTINGS[key].convert(value), source);
+        };
+
+        for (const [key, value] of Object.entries(overrides as Record<string, unknown>)) {
+            if (key in RENAMED_SETTINGS && RENAMED_SETTINGS[key].to in settings) {
+                applyRenamed(key, value, resolvedFile!, RENAMED_SETTINGS[key].to in (overrides as object));
+                continue;
+            }
+            if (!(key in settings)) {
+                problems.push(`providers.${name}.${key} (from ${resolvedFile}): unknown setting for ${name}`);
+                continue;
+            }
+            apply(key, value, resolvedFile!);
+        }
+        for (const [key, { env: oldEnv, to }] of Object.entries(RENAMED_SETTINGS)) {
+            const variable = `${name.toUpperCase()}_${oldEnv}`;
+            if (!(to in settings) || env[variable] === undefined) continue;
+            applyRenamed(key, env[variable], variable, env[`${name.toUpperCase()}_${SETTINGS[to].env}`] !== undefined);
+        }
+        for (const key of Object.keys(settings)) {
+            const variable = `${name.toUpperCase()}_${SETTINGS[key].env}`;
+            if (env[variable] !== undefined) apply(key, env[variable], variable);
+        }
+
+        providers[name] = settings;
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigError(problems);
+    }
+    return { file: resolvedFile, providers: providers as unknown as AppConfig['providers'] };
+}
+
+function loadOrExit(): AppConfig {
+    try {
+        return loadConfig();
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        logger.error(error.message);
+        process.exit(1);
+    }
+}
+
+export const config = loadOrExit();
+
+export const providerSettings = <P extends ConfiguredProvider>(provider: P): AppConfig['providers'][P] =>
+    config.providers[provider];
+
+// Services call this before contacting a portal
+export function assertProviderEnabled(provider: ConfiguredProvider): void {
+    if (!config.providers[provider].enabled) {
+        throw new ProviderError(ErrorType.PROVIDER_DISABLED, `${provider} verification is disabled on this server`, { provider });
+    }
+}
+
+const SECRET_PARAM = /key|token|secret|auth|pass|sig/i;
+
+// Hide credentials in a URL: the password and any secret-looking query parameter
+export function redactUrl(value: string): string {
+    const parsed = new URL(value);
+    const secrets = [...parsed.searchParams.keys()].filter(key => SECRET_PARAM.test(key) && parsed.searchParams.get(key));
+    if (!parsed.password && secrets.length === 0) return value;
+
+    if (parsed.password) parsed.password = '***';
+    secrets.forEach(key => parsed.searchParams.set(key, '***'));
+    return parsed.toString();
+}
+
+// Header names stay visible so a missing Authorization can be spotted
+const redactSource = (source: TelebirrSource) => ({
+    ...source,
+    url: source.url && redactUrl(source.url),
+    headers: Object.fromEntries(Object.keys(source.headers).map(header => [header, '***']))
+});
+
+// Effective configuration without credentials, for GET /admin/config
+export function describeConfig(current: AppConfig = config) {
+    return {
+        file: current.file,
+        providers: Object.fromEntries(
+            Object.entries(current.providers).map(([name, settings]) => [
+                name,
+                {
+                    ...settings,
+                    baseUrl: redactUrl(settings.baseUrl),
+                    ...('sources' in settings && { sources: settings.sources.map(redactSource) })
+                }
+            ])
+        )
+    };
+}
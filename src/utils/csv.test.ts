@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, toCsv } from './csv';
+
+test('keeps the row number of each record across blank lines', () => {
+    const rows = parseCsv('provider,reference\r\n\r\ncbe,FT1\n  \ntelebirr,CH1\n');
+    assert.deepEqual(rows, [
+        { row: 1, cells: ['provider', 'reference'] },
+        { row: 3, cells: ['cbe', 'FT1'] },
+        { row: 5, cells: ['telebirr', 'CH1'] }
+    ]);
+});
+
+test('counts a quoted line break as part of one row, as spreadsheets do', () => {
+    const rows = parseCsv('note,reference\n"two\nlines",FT1\n\nlast,FT2');
+    assert.deepEqual(rows.map(({ row }) => row), [1, 2, 4]);
+    assert.equal(rows[1].cells[0], 'two\nlines');
+});
+
+test('reads semicolon exports with a BOM and escaped quotes', () => {
+    assert.deepEqual(parseCsv('\uFEFFa;b\n"say ""hi""";2'), [
+        { row: 1, cells: ['a', 'b'] },
+        { row: 2, cells: ['say "hi"', '2'] }
+    ]);
+});
+
+test('writes fields that need quoting', () => {
+    assert.equal(toCsv([['a,b', 'c"d', null, 5]]), '"a,b","c""d",,5\r\n');
+});
@@ -0,0 +1,70 @@
+// A record and its 1-based row number in the file, counting blank rows as a spreadsheet does
+export interface CsvRow {
+    row: number;
+    cells: string[];
+}
+
+/**
+ * Minimal RFC 4180 CSV reader and writer: quoted fields, escaped quotes,
+ * embedded commas and line breaks. Spreadsheet exports with a UTF-8 BOM
+ * or semicolon separators are accepted.
+ */
+export function parseCsv(text: string): CsvRow[] {
+    const source = text.replace(/^\uFEFF/, '');
+    const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+    // Excel in some locales exports with semicolons
+    const separator = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+    const rows: CsvRow[] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+
+        if (quoted) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            quoted = true;
+        } else if (char === separator) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push({ row: rows.length + 1, cells: row });
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push({ row: rows.length + 1, cells: row });
+    }
+
+    // Blank lines carry no data, but still count for the row numbers of the lines after them
+    return rows.filter(({ cells }) => cells.some(cell => cell.trim() !== ''));
+}
+
+const escapeField = (value: string): string =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+    return rows
+        .map(cells => cells.map(cell => escapeField(cell === null || cell === undefined ? '' : String(cell))).join(','))
+        .join('\r\n') + '\r\n';
+}
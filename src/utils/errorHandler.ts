@@ -14,6 +14,18 @@ export enum ErrorType {
     FORBIDDEN = 'FORBIDDEN',
     DATABASE = 'DATABASE',
     INTERNAL = 'INTERNAL',
+    ALREADY_USED = 'ALREADY_USED',
+    // consume was asked for a receipt that is pending, failed or unreadable
+    RECEIPT_NOT_COMPLETED = 'RECEIPT_NOT_COMPLETED',
+    // Provider errors, see PROVIDER_ERRORS
+    RECEIPT_NOT_FOUND = 'RECEIPT_NOT_FOUND',
+    INVALID_REFERENCE_FORMAT = 'INVALID_REFERENCE_FORMAT',
+    PARSE_FAILED = 'PARSE_FAILED',
+    UPSTREAM_TIMEOUT = 'UPSTREAM_TIMEOUT',
+    UPSTREAM_BLOCKED = 'UPSTREAM_BLOCKED',
+    UPSTREAM_UNAVAILABLE = 'UPSTREAM_UNAVAILABLE',
+    GEO_RESTRICTED = 'GEO_RESTRICTED',
+    PROVIDER_DISABLED = 'PROVIDER_DISABLED',
 }
 
 // Custom error class with type and status code
@@ -31,6 +43,45 @@ export class AppError extends Error {
     }
 }
 
+export type ProviderErrorType =
+    | ErrorType.RECEIPT_NOT_FOUND
+    | ErrorType.INVALID_REFERENCE_FORMAT
+    | ErrorType.PARSE_FAILED
+    | ErrorType.UPSTREAM_TIMEOUT
+    | ErrorType.UPSTREAM_BLOCKED
+    | ErrorType.UPSTREAM_UNAVAILABLE
+    | ErrorType.GEO_RESTRICTED
+    | ErrorType.PROVIDER_DISABLED;
+
+/**
+ * HTTP status of each provider error and whether the same request may
+ * succeed later. Non-retryable errors are final for that receipt.
+ */
+export const PROVIDER_ERRORS: Record<ProviderErrorType, { statusCode: number; retryable: boolean }> = {
+    [ErrorType.RECEIPT_NOT_FOUND]: { statusCode: 404, retryable: false },
+    [ErrorType.INVALID_REFERENCE_FORMAT]: { statusCode: 400, retryable: false },
+    // The receipt exists but its layout could not be read
+    [ErrorType.PARSE_FAILED]: { statusCode: 502, retryable: false },
+    [ErrorType.UPSTREAM_TIMEOUT]: { statusCode: 504, retryable: true },
+    [ErrorType.UPSTREAM_BLOCKED]: { statusCode: 502, retryable: true },
+    [ErrorType.UPSTREAM_UNAVAILABLE]: { statusCode: 503, retryable: true },
+    // The portal refuses this server's location; retrying from here will not help
+    [ErrorType.GEO_RESTRICTED]: { statusCode: 502, retryable: false },
+    // Switched off in the configuration
+    [ErrorType.PROVIDER_DISABLED]: { statusCode: 503, retryable: false },
+};
+
+// Failure reported by a verification provider or its upstream portal
+export class ProviderError extends AppError {
+    retryable: boolean;
+
+    constructor(type: ProviderErrorType, message: string, details?: any) {
+        super(message, type, PROVIDER_ERRORS[type].statusCode, details);
+        this.retryable = PROVIDER_ERRORS[type].retryable;
+        this.name = 'ProviderError';
+    }
+}
+
 // Handle Prisma-specific errors
 export const handlePrismaError = (error: any): AppError => {
     if (error instanceof PrismaClientKnownRequestError) {
@@ -85,10 +136,34 @@ export const handlePrismaError = (error: any): AppError => {
     }
 };
 
+// Response body for a provider error; its details are meant for clients
+export const providerErrorBody = (error: ProviderError) => {
+    const { retryAfter, ...details } = error.details ?? {};
+    return {
+        success: false,
+        code: error.type,
+        retryable: error.retryable,
+        error: error.message,
+        ...(retryAfter !== undefined && { retryAfter }),
+        ...(Object.keys(details).length > 0 && { details })
+    };
+};
+
 // Send error response
 export const sendErrorResponse = (res: Response, error: any) => {
     const appError = handlePrismaError(error);
 
+    // Fail-fast errors tell the client when to try again
+    const retryAfter = appError.details?.retryAfter;
+    if (typeof retryAfter === 'number') {
+        res.setHeader('Retry-After', String(retryAfter));
+    }
+
+    if (appError instanceof ProviderError) {
+        res.status(appError.statusCode).json(providerErrorBody(appError));
+        return;
+    }
+
     res.status(appError.statusCode).json({
         success: false,
         error: appError.message,
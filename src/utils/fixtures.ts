@@ -0,0 +1,13 @@
+import path from 'path';
+import type { RawResponseFormat } from '../services/providerRegistry';
+
+// Directory holding one subdirectory of recorded upstream responses per provider
+export const FIXTURES_DIR = path.resolve(process.env.FIXTURES_DIR || 'fixtures');
+
+export const fixturePath = (provider: string, name: string, format: RawResponseFormat) =>
+    path.join(FIXTURES_DIR, provider, `${name}.${format}`);
+
+// "<fixture>.pdf" -> "<fixture>.expected.json"
+export const expectedPath = (fixture: string) =>
+    path.join(path.dirname(fixture), `${path.basename(fixture, path.extname(fixture))}.expected.json`);
+
@@ -1,6 +1,7 @@
 import { prisma } from './prisma';
 import type { Prisma } from '@prisma/client';
 import logger from './logger';
+import { hashApiKey } from '../middleware/apiKeyAuth';
 import fs from 'fs';
 import path from 'path';
 
@@ -20,16 +21,17 @@ export const migrateApiKeys = async (inMemoryApiKeys: Map<string, any>) => {
             const migrationResults = [];
 
             for (const [key, data] of inMemoryApiKeys.entries()) {
-                // Check if key already exists in database
+                // Check if key already exists in database (keys are stored hashed)
+                const keyHash = hashApiKey(key);
                 const existingKey = await tx.apiKey.findUnique({
-                    where: { key }
+                    where: { keyHash }
                 });
 
                 if (!existingKey) {
                     // Create new key in database
                     const newKey = await tx.apiKey.create({
                         data: {
-                            key,
+                            keyHash,
                             owner: data.owner,
                             usageCount: data.usageCount || 0,
                             lastUsed: data.lastUsed ? new Date(data.lastUsed) : null,
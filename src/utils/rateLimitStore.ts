@@ -0,0 +1,131 @@
+import logger from './logger';
+
+export interface TokenBucketResult {
+    allowed: boolean;
+    remaining: number;
+    // Milliseconds until the next token is available
+    retryAfterMs: number;
+}
+
+/**
+ * Backing store for rate limit counters. The in-process store is the
+ * default; a Redis-compatible store can be plugged in when several
+ * instances share the same limits.
+ */
+export interface RateLimitStore {
+    // Takes `tokens` at once (a batch counts once per item), or none when fewer are available
+    takeToken(key: string, capacity: number, refillPerMs: number, now?: number, tokens?: number): Promise<TokenBucketResult>;
+    // Adds `by` (negative to give units back) and returns the new count
+    increment(key: string, ttlMs: number, now?: number, by?: number): Promise<number>;
+}
+
+/**
+ * Minimal subset of a Redis client used by the Redis store. Matches the
+ * `eval(script, numKeys, ...args)` signature of ioredis, and is easy to
+ * fake with a local stand-in.
+ */
+export interface RedisLikeClient {
+    eval(script: string, numKeys: number, ...args: (string | number)[]): Promise<unknown>;
+}
+
+const MAX_MEMORY_ENTRIES = 10000;
+
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+    const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+    const counters = new Map<string, { count: number; expiresAt: number }>();
+
+    // Drop idle entries so the maps do not grow without bound
+    const sweep = (now: number) => {
+        if (counters.size > MAX_MEMORY_ENTRIES) {
+            counters.forEach((value, key) => {
+                if (value.expiresAt <= now) counters.delete(key);
+            });
+        }
+        if (buckets.size > MAX_MEMORY_ENTRIES) {
+            buckets.forEach((value, key) => {
+                if (now - value.updatedAt > 60 * 60 * 1000) buckets.delete(key);
+            });
+        }
+    };
+
+    return {
+        async takeToken(key, capacity, refillPerMs, now = Date.now(), cost = 1) {
+            sweep(now);
+            const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+            const tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+
+            if (tokens < cost) {
+                buckets.set(key, { tokens, updatedAt: now });
+                return { allowed: false, remaining: Math.floor(tokens), retryAfterMs: Math.ceil((cost - tokens) / refillPerMs) };
+            }
+
+            buckets.set(key, { tokens: tokens - cost, updatedAt: now });
+            return { allowed: true, remaining: Math.floor(tokens - cost), retryAfterMs: 0 };
+        },
+
+        async increment(key, ttlMs, now = Date.now(), by = 1) {
+            sweep(now);
+            const counter = counters.get(key);
+            if (!counter || counter.expiresAt <= now) {
+                counters.set(key, { count: by, expiresAt: now + ttlMs });
+                return by;
+            }
+            counter.count += by;
+            return counter.count;
+        }
+    };
+};
+
+// Refill and take tokens atomically; returns { allowed, remaining, retryAfterMs }
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local cost = tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + (now - updatedAt) * refill)
+local allowed = 0
+local retry = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retry = math.ceil((cost - tokens) / refill)
+end
+redis.call('HSET', KEYS[1], 'tokens', tokens, 'updatedAt', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill) + 1000)
+return { allowed, math.floor(tokens), retry }
+`;
+
+const INCREMENT_SCRIPT = `
+local count = redis.call('INCRBY', KEYS[1], ARGV[2])
+if redis.call('PTTL', KEYS[1]) < 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+end
+return count
+`;
+
+export const createRedisRateLimitStore = (client: RedisLikeClient, prefix = 'ratelimit:'): RateLimitStore => ({
+    async takeToken(key, capacity, refillPerMs, now = Date.now(), cost = 1) {
+        const [allowed, remaining, retryAfterMs] = await client.eval(
+            TOKEN_BUCKET_SCRIPT, 1, `${prefix}${key}`, capacity, refillPerMs, now, cost
+        ) as number[];
+        return { allowed: allowed === 1, remaining: Number(remaining), retryAfterMs: Number(retryAfterMs) };
+    },
+
+    async increment(key, ttlMs, _now, by = 1) {
+        return Number(await client.eval(INCREMENT_SCRIPT, 1, `${prefix}${key}`, ttlMs, by));
+    }
+});
+
+let activeStore: RateLimitStore = createMemoryRateLimitStore();
+
+export const getRateLimitStore = (): RateLimitStore => activeStore;
+
+// Swap the backing store, e.g. to a Redis store at startup
+export const setRateLimitStore = (store: RateLimitStore) => {
+    activeStore = store;
+    logger.info('Rate limit store replaced');
+};
@@ -0,0 +1,100 @@
+import { Prisma } from '@prisma/client';
+import logger from './logger';
+
+export interface CachedValue<T = unknown> {
+    value: T;
+    storedAt: number;
+}
+
+/**
+ * Backing store for cached verification results. The in-process store is
+ * the default; the Prisma store shares the cache between instances and
+ * keeps it across restarts.
+ */
+export interface ResultCacheStore {
+    readonly name: string;
+    get<T>(key: string, now?: number): Promise<CachedValue<T> | null>;
+    set<T>(key: string, value: T, ttlMs: number, now?: number): Promise<void>;
+}
+
+const MAX_MEMORY_ENTRIES = parseInt(process.env.RESULT_CACHE_MAX_ENTRIES || '10000', 10);
+
+export const createMemoryResultCacheStore = (): ResultCacheStore => {
+    const entries = new Map<string, { value: unknown; storedAt: number; expiresAt: number }>();
+
+    return {
+        name: 'memory',
+
+        async get<T>(key: string, now = Date.now()) {
+            const entry = entries.get(key);
+            if (!entry) return null;
+            if (entry.expiresAt <= now) {
+                entries.delete(key);
+                return null;
+            }
+            return { value: entry.value as T, storedAt: entry.storedAt };
+        },
+
+        async set(key, value, ttlMs, now = Date.now()) {
+            // Re-insert so Map order tracks recency; the oldest entry is evicted first
+            entries.delete(key);
+            entries.set(key, { value, storedAt: now, expiresAt: now + ttlMs });
+            if (entries.size > MAX_MEMORY_ENTRIES) {
+                entries.delete(entries.keys().next().value as string);
+            }
+        }
+    };
+};
+
+// Loaded on first use, so importing the store does not start a Prisma client
+const db = async () => (await import('./prisma')).prisma;
+
+// Expired rows are purged at most this often
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+
+export const createPrismaResultCacheStore = (): ResultCacheStore => {
+    let lastPurge = 0;
+
+    const purgeExpired = (now: number) => {
+        if (now - lastPurge < PURGE_INTERVAL_MS) return;
+        lastPurge = now;
+        db()
+            .then(prisma => prisma.verificationCache.deleteMany({ where: { expiresAt: { lte: new Date(now) } } }))
+            .catch(err => {
+                logger.error('Error purging verification cache:', err);
+            });
+    };
+
+    return {
+        name: 'prisma',
+
+        async get<T>(key: string, now = Date.now()) {
+            const prisma = await db();
+            const row = await prisma.verificationCache.findUnique({ where: { key } });
+            if (!row || row.expiresAt.getTime() <= now) return null;
+            return { value: row.value as T, storedAt: row.createdAt.getTime() };
+        },
+
+        async set(key, value, ttlMs, now = Date.now()) {
+            const data = {
+                provider: key.split(':')[0],
+                value: value as unknown as Prisma.InputJsonValue,
+                expiresAt: new Date(now + ttlMs),
+                createdAt: new Date(now)
+            };
+            const prisma = await db();
+            await prisma.verificationCache.upsert({ where: { key }, create: { key, ...data }, update: data });
+            purgeExpired(now);
+        }
+    };
+};
+
+let activeStore: ResultCacheStore =
+    process.env.RESULT_CACHE_STORE === 'prisma' ? createPrismaResultCacheStore() : createMemoryResultCacheStore();
+
+export const getResultCacheStore = (): ResultCacheStore => activeStore;
+
+export const setResultCacheStore = (store: ResultCacheStore) => {
+    activeStore = store;
+    logger.info(`Result cache store replaced (${store.name})`);
+};
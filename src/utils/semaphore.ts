@@ -0,0 +1,51 @@
+export type Release = () => void;
+
+export interface Semaphore {
+    acquire(): Promise<Release>;
+    tryAcquire(): Release | null;
+    readonly active: number;
+    readonly pending: number;
+    readonly limit: number;
+}
+
+// Counting semaphore; waiters are served in FIFO order
+export const createSemaphore = (limit: number): Semaphore => {
+    let active = 0;
+    const waiters: ((release: Release) => void)[] = [];
+
+    const release = () => {
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            const next = waiters.shift();
+            if (next) {
+                next(release());
+            } else {
+                active--;
+            }
+        };
+    };
+
+    return {
+        acquire() {
+            if (active < limit) {
+                active++;
+                return Promise.resolve(release());
+            }
+            return new Promise(resolve => waiters.push(resolve));
+        },
+        tryAcquire() {
+            if (active >= limit) return null;
+            active++;
+            return release();
+        },
+        get active() {
+            return active;
+        },
+        get pending() {
+            return waiters.length;
+        },
+        limit
+    };
+};
@@ -0,0 +1,213 @@
+import axios, {
+    AxiosError,
+    AxiosHeaders,
+    AxiosRequestConfig,
+    AxiosResponse,
+    InternalAxiosRequestConfig
+} from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import https from 'https';
+import path from 'path';
+import logger from './logger';
+import type { ProviderSettings } from './config';
+
+export type UpstreamMode = 'live' | 'record' | 'replay';
+
+// live calls the banks, record calls them and saves every answer, replay only serves saved answers
+const UPSTREAM_MODE = (process.env.UPSTREAM_MODE || 'live') as UpstreamMode;
+// Where recorded upstream responses are kept, one JSON file per URL
+export const RECORDINGS_DIR = path.resolve(process.env.UPSTREAM_RECORDINGS_DIR || 'recordings');
+// Send every bank request to this server instead, e.g. the mock bank server at http://localhost:4010
+const UPSTREAM_REDIRECT = process.env.UPSTREAM_REDIRECT?.replace(/\/+$/, '') || null;
+
+/**
+ * How services reach bank portals. Takes the same arguments as `axios.get`
+ * and answers the same way, including rejecting with an AxiosError that
+ * carries the response for non-2xx statuses.
+ */
+export interface UpstreamTransport {
+    name: string;
+    get<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>>;
+}
+
+export interface Recording {
+    url: string;
+    status: number;
+    statusText: string;
+    contentType: string | null;
+    // Base64 so PDFs survive the round trip
+    body: string;
+    recordedAt: string;
+}
+
+// Recordings are keyed by the URL the service asked for, so ones made against the mock replay for the real host
+export const recordingPath = (url: string) =>
+    path.join(RECORDINGS_DIR, `${new URL(url).hostname}-${crypto.createHash('sha256').update(url).digest('hex').slice(0, 16)}.json`);
+
+// "https://apps.cbe.com.et:100/?id=X" -> "http://localhost:4010/apps.cbe.com.et/?id=X"
+function redirect(url: string): string {
+    if (!UPSTREAM_REDIRECT) return url;
+    const target = new URL(url);
+    return `${UPSTREAM_REDIRECT}/${target.hostname}${target.pathname}${target.search}`;
+}
+
+export const liveTransport: UpstreamTransport = {
+    name: 'live',
+    get: (url, config) => axios.get(redirect(url), config)
+};
+
+function saveRecording(url: string, response: AxiosResponse): void {
+    const body = Buffer.isBuffer(response.data) || response.data instanceof ArrayBuffer
+        ? Buffer.from(response.data)
+        : Buffer.from(typeof response.data === 'string' ? response.data : JSON.stringify(response.data));
+    const recording: Recording = {
+        url,
+        status: response.status,
+        statusText: response.statusText,
+        contentType: response.headers?.['content-type']?.toString() ?? null,
+        body: body.toString('base64'),
+        recordedAt: new Date().toISOString()
+    };
+
+    const file = recordingPath(url);
+    try {
+        fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
+        fs.writeFileSync(file, `${JSON.stringify(recording, null, 2)}\n`);
+        logger.info(`📼 Recorded ${url} to ${file}`);
+    } catch (error) {
+        logger.warn(`Could not record ${url}:`, error);
+    }
+}
+
+/**
+ * Calls through `inner` and saves every answer the portal gave, error
+ * statuses included, for replay. Timeouts and network failures have no
+ * answer to save.
+ */
+export function recordingTransport(inner: UpstreamTransport = liveTransport): UpstreamTransport {
+    return {
+        name: 'record',
+        async get(url, config) {
+            try {
+                const response = await inner.get(url, config);
+                saveRecording(url, response);
+                return response;
+            } catch (error) {
+                if (error instanceof AxiosError && error.response) {
+                    saveRecording(url, error.response);
+                }
+                throw error;
+            }
+        }
+    };
+}
+
+// Hand the body back the way axios would have for the requested responseType
+function decodeBody(body: Buffer, contentType: string | null, config: AxiosRequestConfig): unknown {
+    if (config.responseType === 'arraybuffer') return body;
+    const text = body.toString('utf8');
+    if (config.responseType === 'text' || !/json/i.test(contentType ?? '')) return text;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Serves recorded answers and never touches the network. A URL without a
+ * recording fails like an unreachable host, so it is reported as
+ * UPSTREAM_UNAVAILABLE.
+ */
+export const replayTransport: UpstreamTransport = {
+    name: 'replay',
+    async get(url, config = {}) {
+        // The config axios itself would attach to the response and errors
+        const requestConfig: InternalAxiosRequestConfig = {
+            ...config,
+            url,
+            headers: new AxiosHeaders(config.headers as Record<string, string>)
+        };
+        const file = recordingPath(url);
+        if (!fs.existsSync(file)) {
+            throw new AxiosError(`No recorded response for ${url} (expected ${file})`, 'ERR_NO_RECORDING', requestConfig);
+        }
+
+        const recording: Recording = JSON.parse(fs.readFileSync(file, 'utf8'));
+        const response = {
+            data: decodeBody(Buffer.from(recording.body, 'base64'), recording.contentType, config),
+            status: recording.status,
+            statusText: recording.statusText,
+            headers: recording.contentType ? { 'content-type': recording.contentType } : {},
+            config: requestConfig,
+            request: { replayed: file }
+        } as AxiosResponse;
+
+        logger.debug(`📼 Replaying ${url} from ${file}`);
+        const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+        if (!validateStatus(response.status)) {
+            throw new AxiosError(
+                `Request failed with status code ${response.status}`,
+                response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+                requestConfig,
+                response.request,
+                response
+            );
+        }
+        return response;
+    }
+};
+
+function transportFor(mode: UpstreamMode): UpstreamTransport {
+    switch (mode) {
+        case 'live':
+            return liveTransport;
+        case 'record':
+            return recordingTransport();
+        case 'replay':
+            return replayTransport;
+        default:
+            throw new Error(`Unknown UPSTREAM_MODE "${mode}". Use live, record or replay`);
+    }
+}
+
+let transport = transportFor(UPSTREAM_MODE);
+if (transport !== liveTransport || UPSTREAM_REDIRECT) {
+    logger.info(`🔀 Upstream transport: ${transport.name}${UPSTREAM_REDIRECT ? `, redirected to ${UPSTREAM_REDIRECT}` : ''}`);
+}
+
+export const getUpstreamTransport = () => transport;
+
+// Swap the transport, e.g. for a test double; returns the previous one
+export function setUpstreamTransport(next: UpstreamTransport): UpstreamTransport {
+    const previous = transport;
+    transport = next;
+    return previous;
+}
+
+/**
+ * GET a bank portal URL through the current transport. Services call this
+ * instead of `axios.get` so portals can be recorded, replayed or mocked.
+ */
+export function upstreamGet<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    return transport.get<T>(url, config);
+}
+
+// The headless browser fallback talks to the real portal, so it only makes sense when requests do too
+export const reachesRealUpstreams = () => transport === liveTransport && !UPSTREAM_REDIRECT;
+
+// One agent per TLS mode, shared by every portal request
+const httpsAgents = {
+    strict: new https.Agent({ rejectUnauthorized: true }),
+    lenient: new https.Agent({ rejectUnauthorized: false })
+};
+
+// Timeout, TLS checking and User-Agent of a provider's requests, plus any request-specific headers
+export function portalRequestConfig(settings: ProviderSettings, headers: Record<string, string> = {}): AxiosRequestConfig {
+    return {
+        timeout: settings.timeoutMs,
+        httpsAgent: settings.verifyTls ? httpsAgents.strict : httpsAgents.lenient,
+        headers: { ...(settings.userAgent && { 'User-Agent': settings.userAgent }), ...headers }
+    };
+}
@@ -0,0 +1,104 @@
+import { Prisma } from '@prisma/client';
+import logger from './logger';
+
+// The JSON body posted to receivers; kept on a failed attempt so a retry resends it unchanged
+export interface WebhookBody {
+    id: string;
+    event: string;
+    jobId: string;
+    createdAt: string;
+    data: Record<string, unknown>;
+}
+
+export interface WebhookAttempt {
+    apiKeyId: string;
+    jobId: string;
+    event: string;
+    url: string;
+    attempt: number;
+    statusCode: number | null;
+    error: string | null;
+    durationMs: number;
+    deliveredAt: Date | null;
+    // Set when another attempt is due
+    nextAttemptAt: Date | null;
+    payload: WebhookBody | null;
+}
+
+export interface DueWebhook {
+    id: string;
+    apiKeyId: string;
+    attempt: number;
+    payload: WebhookBody;
+}
+
+/**
+ * Persists webhook delivery attempts. Pending retries live in the same rows
+ * (`nextAttemptAt`), so they survive restarts and are shared by instances.
+ */
+export interface WebhookDeliveryStore {
+    readonly name: string;
+    record(attempt: WebhookAttempt): Promise<void>;
+    // Takes up to `limit` retries due by `now`; a claimed retry is never handed out twice
+    claimDue(now: Date, limit: number): Promise<DueWebhook[]>;
+    // Current URL and secret of the key, or null when its webhook was removed
+    findTarget(apiKeyId: string): Promise<{ url: string; secret: string } | null>;
+}
+
+// Loaded on first use, so importing the store does not start a Prisma client
+const db = async () => (await import('./prisma')).prisma;
+
+export const createPrismaWebhookDeliveryStore = (): WebhookDeliveryStore => ({
+    name: 'prisma',
+
+    async record(attempt) {
+        const prisma = await db();
+        await prisma.webhookDelivery.create({
+            data: {
+                ...attempt,
+                payload: attempt.payload ? attempt.payload as unknown as Prisma.InputJsonValue : Prisma.DbNull
+            }
+        });
+    },
+
+    async claimDue(now, limit) {
+        const prisma = await db();
+        const rows = await prisma.webhookDelivery.findMany({
+            where: { nextAttemptAt: { lte: now } },
+            orderBy: { nextAttemptAt: 'asc' },
+            take: limit,
+            select: { id: true, apiKeyId: true, attempt: true, payload: true }
+        });
+
+        const claimed: DueWebhook[] = [];
+        for (const row of rows) {
+            // Clearing nextAttemptAt is the claim; another instance that read the row gets count 0
+            const { count } = await prisma.webhookDelivery.updateMany({
+                where: { id: row.id, nextAttemptAt: { not: null } },
+                data: { nextAttemptAt: null }
+            });
+            if (count === 1 && row.payload) {
+                claimed.push({ ...row, payload: row.payload as unknown as WebhookBody });
+            }
+        }
+        return claimed;
+    },
+
+    async findTarget(apiKeyId) {
+        const prisma = await db();
+        const key = await prisma.apiKey.findUnique({
+            where: { id: apiKeyId },
+            select: { webhookUrl: true, webhookSecret: true }
+        });
+        return key?.webhookUrl && key.webhookSecret ? { url: key.webhookUrl, secret: key.webhookSecret } : null;
+    }
+});
+
+let activeStore: WebhookDeliveryStore = createPrismaWebhookDeliveryStore();
+
+export const getWebhookDeliveryStore = (): WebhookDeliveryStore => activeStore;
+
+export const setWebhookDeliveryStore = (store: WebhookDeliveryStore) => {
+    activeStore = store;
+    logger.info(`Webhook delivery store replaced (${store.name})`);
+};